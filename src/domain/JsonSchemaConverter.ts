@@ -0,0 +1,648 @@
+import {
+  JsonSchema,
+  JsonSchemaExport,
+  JsonSchemaImport,
+  JsonSchemaObject,
+  UnsupportedKeyword
+} from '../interfaces/JsonSchema.js';
+import { Discriminator, ValidationFormat } from '../interfaces/MikroValid.js';
+
+import { schemaKeywords } from './keywords.js';
+
+type KeywordHandler = (
+  value: any,
+  result: Record<string, any>,
+  path: string,
+  unsupported: UnsupportedKeyword[]
+) => void;
+
+/**
+ * The types of the definition being exported, and where it is in the source schema.
+ */
+type ExportContext = {
+  types: string[];
+  path: string;
+  unsupported: UnsupportedKeyword[];
+};
+
+type ExportHandler = (value: any, result: JsonSchemaObject, context: ExportContext) => void;
+
+export class JsonSchemaConverter {
+  /**
+   * Keywords that only describe a schema and have no effect on validation.
+   */
+  private readonly annotationKeywords: string[] = [
+    '$schema',
+    '$id',
+    '$comment',
+    'title',
+    'description',
+    'examples',
+    'deprecated',
+    'readOnly',
+    'writeOnly'
+  ];
+
+  /**
+   * JSON Schema formats and their MikroValid counterparts.
+   */
+  private readonly formats: Record<string, ValidationFormat> = {
+    date: 'date',
+    email: 'email',
+    hostname: 'hostname',
+    ipv4: 'ipv4',
+    ipv6: 'ipv6',
+    uri: 'url',
+    uuid: 'uuid'
+  };
+
+  /**
+   * Patterns for MikroValid formats that have no JSON Schema counterpart.
+   */
+  private readonly formatPatterns: Record<string, string> = {
+    alphanumeric: '^[a-zA-Z0-9]+$',
+    cidr: this.getCidrPattern(),
+    hexColor: '^#?([a-fA-F0-9]{6}|[a-fA-F0-9]{3})$',
+    numeric: '^-?\\d+(\\.\\d+)?$',
+    semver:
+      '^(0|[1-9]\\d*)\\.(0|[1-9]\\d*)\\.(0|[1-9]\\d*)(?:-((?:0|[1-9]\\d*|\\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\\.(?:0|[1-9]\\d*|\\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\\+([0-9a-zA-Z-]+(?:\\.[0-9a-zA-Z-]+)*))?$',
+    ulid: '^[0-7][0-9a-hjkmnp-tv-zA-HJKMNP-TV-Z]{25}$'
+  };
+
+  private readonly keywordHandlers: Record<string, KeywordHandler> = {
+    type: (value, result, path, unsupported) => this.convertType(value, result, path, unsupported),
+    default: (value, result) => (result.default = value),
+    enum: (value, result) => (result.enum = [...value]),
+    const: (value, result) => (result.const = value),
+    minimum: (value, result) => (result.minValue = value),
+    maximum: (value, result) => (result.maxValue = value),
+    exclusiveMinimum: (value, result, path, unsupported) => {
+      if (typeof value === 'number') result.exclusiveMinValue = value;
+      else unsupported.push({ keyword: 'exclusiveMinimum', path, value });
+    },
+    exclusiveMaximum: (value, result, path, unsupported) => {
+      if (typeof value === 'number') result.exclusiveMaxValue = value;
+      else unsupported.push({ keyword: 'exclusiveMaximum', path, value });
+    },
+    multipleOf: (value, result) => (result.multipleOf = value),
+    minLength: (value, result) => (result.minLength = value),
+    maxLength: (value, result) => (result.maxLength = value),
+    minItems: (value, result) => (result.minLength = value),
+    maxItems: (value, result) => (result.maxLength = value),
+    pattern: (value, result, path, unsupported) => {
+      try {
+        // JSON Schema patterns use the Unicode semantics of ECMA-262, such as `\p{Lu}`
+        result.matchesPattern = new RegExp(value, 'u');
+      } catch {
+        unsupported.push({ keyword: 'pattern', path, value });
+      }
+    },
+    format: (value, result, path, unsupported) => {
+      const format = this.getOwn(this.formats, value);
+      if (format) result.format = format;
+      else unsupported.push({ keyword: 'format', path, value });
+    },
+    required: (value, result) => (result.required = [...value]),
+    additionalProperties: (value, result, path, unsupported) => {
+      if (typeof value === 'boolean') result.additionalProperties = value;
+      else unsupported.push({ keyword: 'additionalProperties', path, value });
+    },
+    properties: (value, result, path, unsupported) =>
+      this.convertProperties(value, result, path, unsupported),
+    items: (value, result, path, unsupported) => {
+      if (Array.isArray(value)) result.prefixItems = this.convertBranches(value, path, unsupported);
+      else this.convertAdditionalItems(value, result, path, unsupported);
+    },
+    prefixItems: (value, result, path, unsupported) =>
+      (result.prefixItems = this.convertBranches(value, path, unsupported)),
+    additionalItems: (value, result, path, unsupported) =>
+      this.convertAdditionalItems(value, result, path, unsupported),
+    uniqueItems: (value, result) => {
+      if (value) result.uniqueItems = true;
+    },
+    contains: (value, result, path, unsupported) =>
+      (result.contains = this.convertSchema(value, path, unsupported)),
+    minContains: (value, result) => (result.minContains = value),
+    maxContains: (value, result) => (result.maxContains = value),
+    allOf: (value, result, path, unsupported) =>
+      (result.allOf = this.convertBranches(value, path, unsupported)),
+    anyOf: (value, result, path, unsupported) =>
+      (result.anyOf = this.convertBranches(value, path, unsupported)),
+    oneOf: (value, result, path, unsupported) =>
+      (result.oneOf = this.convertBranches(value, path, unsupported)),
+    not: (value, result, path, unsupported) =>
+      (result.not = this.convertSchema(value, path, unsupported)),
+    if: (value, result, path, unsupported) =>
+      (result.if = this.convertSchema(value, path, unsupported)),
+    then: (value, result, path, unsupported) =>
+      (result.then = this.convertSchema(value, path, unsupported)),
+    else: (value, result, path, unsupported) =>
+      (result.else = this.convertSchema(value, path, unsupported)),
+    dependentRequired: (value, result) =>
+      (result.dependentRequired = Object.fromEntries(
+        Object.keys(value).map((key: string) => [key, [...value[key]]])
+      )),
+    dependentSchemas: (value, result, path, unsupported) =>
+      (result.dependentSchemas = Object.fromEntries(
+        Object.keys(value).map((key: string) => [
+          key,
+          this.convertSchema(value[key], `${path}/${this.escapePointer(key)}`, unsupported)
+        ])
+      )),
+    $ref: (value, result, path, unsupported) => {
+      const ref = this.convertReference(value);
+      if (ref) result.$ref = ref;
+      else unsupported.push({ keyword: '$ref', path, value });
+    },
+    $defs: (value, result, path, unsupported) =>
+      this.convertDefinitions(value, result, path, unsupported),
+    definitions: (value, result, path, unsupported) =>
+      this.convertDefinitions(value, result, path, unsupported)
+  };
+
+  private readonly exportHandlers: Record<string, ExportHandler> = {
+    type: (value, result) => (result.type = typeof value === 'string' ? value : [...value]),
+    format: (value, result) => {
+      const format = Object.keys(this.formats).find((key: string) => this.formats[key] === value);
+      if (format) result.format = format;
+      else if (this.getOwn(this.formatPatterns, value))
+        this.addPattern(result, this.formatPatterns[value]);
+      else result.format = value;
+    },
+    matchesPattern: (value, result, { path, unsupported }) => {
+      const pattern = new RegExp(value);
+      this.addPattern(result, pattern.source);
+      if (this.hasDroppedFlags(pattern))
+        unsupported.push({ keyword: 'matchesPattern', path, value });
+    },
+    minLength: (value, result, { types }) => this.addLength(result, types, value, 'min'),
+    maxLength: (value, result, { types }) => this.addLength(result, types, value, 'max'),
+    default: (value, result) => (result.default = value),
+    enum: (value, result) => (result.enum = [...value]),
+    const: (value, result) => (result.const = value),
+    minValue: (value, result) => (result.minimum = value),
+    maxValue: (value, result) => (result.maximum = value),
+    exclusiveMinValue: (value, result) => (result.exclusiveMinimum = value),
+    exclusiveMaxValue: (value, result) => (result.exclusiveMaximum = value),
+    multipleOf: (value, result) => (result.multipleOf = value),
+    items: (value, result, { path, unsupported }) => {
+      if (result.items !== false) result.items = this.toJsonSchemaNode(value, path, unsupported);
+    },
+    prefixItems: (value, result, { path, unsupported }) => {
+      result.prefixItems = this.toJsonSchemaBranches(value, path, unsupported);
+      result.minItems = Math.max(result.minItems ?? 0, value.length);
+    },
+    additionalItems: (value, result) => {
+      if (value === false) result.items = false;
+    },
+    uniqueItems: (value, result, { path, unsupported }) => {
+      if (value === true) result.uniqueItems = true;
+      else if (value) unsupported.push({ keyword: 'uniqueItems', path, value });
+    },
+    contains: (value, result, { path, unsupported }) =>
+      (result.contains = this.toJsonSchemaNode(value, path, unsupported)),
+    minContains: (value, result) => (result.minContains = value),
+    maxContains: (value, result) => (result.maxContains = value),
+    required: (value, result) => (result.required = [...value]),
+    additionalProperties: (value, result) => (result.additionalProperties = value !== false),
+    allOf: (value, result, { path, unsupported }) =>
+      (result.allOf = [
+        ...(result.allOf || []),
+        ...this.toJsonSchemaBranches(value, path, unsupported)
+      ]),
+    anyOf: (value, result, { path, unsupported }) =>
+      (result.anyOf = this.toJsonSchemaBranches(value, path, unsupported)),
+    oneOf: (value, result, { path, unsupported }) =>
+      (result.oneOf = this.toJsonSchemaBranches(value, path, unsupported)),
+    not: (value, result, { path, unsupported }) =>
+      (result.not = this.toJsonSchemaNode(value, path, unsupported)),
+    discriminator: (value, result, { path, unsupported }) =>
+      this.addDiscriminator(result, value, path, unsupported),
+    if: (value, result, { path, unsupported }) =>
+      (result.if = this.toJsonSchemaNode(value, path, unsupported)),
+    then: (value, result, { path, unsupported }) =>
+      (result.then = this.toJsonSchemaNode(value, path, unsupported)),
+    else: (value, result, { path, unsupported }) =>
+      (result.else = this.toJsonSchemaNode(value, path, unsupported)),
+    dependentRequired: (value, result) =>
+      (result.dependentRequired = Object.fromEntries(
+        Object.keys(value).map((key: string) => [key, [...value[key]]])
+      )),
+    dependentSchemas: (value, result, { path, unsupported }) =>
+      (result.dependentSchemas = Object.fromEntries(
+        Object.keys(value).map((key: string) => [
+          key,
+          this.toJsonSchemaNode(value[key], `${path}/${this.escapePointer(key)}`, unsupported)
+        ])
+      )),
+    $ref: (value, result) => (result.$ref = value.replace(/^#\/definitions\//, '#/$defs/'))
+  };
+
+  /**
+   * @description Converts a JSON Schema (draft-07 or 2020-12) document to a MikroValid schema.
+   *
+   * Any keywords that cannot be translated are returned in `unsupported`
+   * together with their location in the source document.
+   *
+   * @example
+   * import { JsonSchemaConverter } from 'mikrovalid';
+   *
+   * const { schema, unsupported } = new JsonSchemaConverter().fromJsonSchema({
+   *   type: 'object',
+   *   properties: {
+   *     name: { type: 'string', pattern: '^[A-Z]' },
+   *     age: { type: 'number', minimum: 0 }
+   *   },
+   *   required: ['name']
+   * });
+   */
+  public fromJsonSchema(document: JsonSchema): JsonSchemaImport {
+    const unsupported: UnsupportedKeyword[] = [];
+    const { type, definitions, ...properties } = this.convertSchema(document, '', unsupported);
+
+    if (type && type !== 'object')
+      unsupported.push({ keyword: 'type', path: '/type', value: (document as any).type });
+
+    return {
+      schema: { properties, ...(definitions && { definitions }) },
+      unsupported
+    };
+  }
+
+  /**
+   * @description Converts a single (sub-)schema, recording anything that can't be translated.
+   */
+  private convertSchema(schema: JsonSchema, path: string, unsupported: UnsupportedKeyword[]) {
+    const result: Record<string, any> = {};
+
+    if (typeof schema === 'boolean') {
+      if (!schema) unsupported.push({ keyword: 'false', path, value: schema });
+      return result;
+    }
+
+    for (const keyword in schema) {
+      const keywordPath = `${path}/${this.escapePointer(keyword)}`;
+      const handler = this.getOwn(this.keywordHandlers, keyword);
+
+      if (handler) handler(schema[keyword], result, keywordPath, unsupported);
+      else if (!this.annotationKeywords.includes(keyword))
+        unsupported.push({ keyword, path: keywordPath, value: schema[keyword] });
+    }
+
+    this.checkForOptionalItems(schema, result, path, unsupported);
+
+    return this.withInferredType(result, schema);
+  }
+
+  /**
+   * @description Places the definitions from `properties` directly in the
+   * resulting schema, which is where MikroValid expects them.
+   */
+  private convertProperties(
+    properties: Record<string, JsonSchema>,
+    result: Record<string, any>,
+    path: string,
+    unsupported: UnsupportedKeyword[]
+  ) {
+    for (const key in properties) {
+      const propertyPath = `${path}/${this.escapePointer(key)}`;
+
+      if (schemaKeywords.includes(key))
+        unsupported.push({ keyword: 'properties', path: propertyPath, value: properties[key] });
+      else result[key] = this.convertSchema(properties[key], propertyPath, unsupported);
+    }
+  }
+
+  /**
+   * @description Converts the branches of a composition, such as `anyOf`.
+   */
+  private convertBranches(branches: JsonSchema[], path: string, unsupported: UnsupportedKeyword[]) {
+    return branches.map((branch: JsonSchema, index: number) =>
+      this.convertSchema(branch, `${path}/${index}`, unsupported)
+    );
+  }
+
+  /**
+   * @description Converts the schema for the elements after any positional ones,
+   * where `false` means that there may be no such elements.
+   */
+  private convertAdditionalItems(
+    value: JsonSchema,
+    result: Record<string, any>,
+    path: string,
+    unsupported: UnsupportedKeyword[]
+  ) {
+    if (value === false) result.additionalItems = false;
+    else if (value !== true) result.items = this.convertSchema(value, path, unsupported);
+  }
+
+  /**
+   * @description MikroValid requires an element for every position in `prefixItems`,
+   * while JSON Schema only does so when `minItems` says so. Positions that are optional
+   * in the source document are approximated as required, and reported.
+   */
+  private checkForOptionalItems(
+    schema: JsonSchemaObject,
+    result: Record<string, any>,
+    path: string,
+    unsupported: UnsupportedKeyword[]
+  ) {
+    if (!result.prefixItems || (schema.minItems ?? 0) >= result.prefixItems.length) return;
+
+    const keyword = Array.isArray(schema.items) ? 'items' : 'prefixItems';
+    unsupported.push({ keyword, path: `${path}/${keyword}`, value: schema[keyword] });
+  }
+
+  /**
+   * @description Converts the definitions that references can point to.
+   * MikroValid only has definitions on the root level of a schema.
+   */
+  private convertDefinitions(
+    definitions: Record<string, JsonSchema>,
+    result: Record<string, any>,
+    path: string,
+    unsupported: UnsupportedKeyword[]
+  ) {
+    if (path !== '/$defs' && path !== '/definitions') {
+      unsupported.push({
+        keyword: path.slice(path.lastIndexOf('/') + 1),
+        path,
+        value: definitions
+      });
+      return;
+    }
+
+    result.definitions = {
+      ...result.definitions,
+      ...Object.fromEntries(
+        Object.keys(definitions).map((name: string) => [
+          name,
+          this.convertSchema(definitions[name], `${path}/${this.escapePointer(name)}`, unsupported)
+        ])
+      )
+    };
+  }
+
+  /**
+   * @description Converts a reference to the root, or to one of its definitions.
+   * Any other references, such as to other documents, are not supported.
+   */
+  private convertReference(ref: string) {
+    if (ref === '#') return ref;
+
+    const match = /^#\/(?:\$defs|definitions)\/([^/]+)$/.exec(ref);
+    if (match) return `#/definitions/${match[1]}`;
+  }
+
+  /**
+   * @description Converts one or more types. MikroValid has no `null` type,
+   * so it is dropped and reported.
+   */
+  private convertType(
+    value: string | string[],
+    result: Record<string, any>,
+    path: string,
+    unsupported: UnsupportedKeyword[]
+  ) {
+    const types = Array.isArray(value) ? value : [value];
+
+    if (types.includes('null')) unsupported.push({ keyword: 'type', path, value });
+
+    const converted = types.filter((type: string) => type !== 'null');
+
+    if (converted.length === 1) result.type = converted[0];
+    else if (converted.length > 1) result.type = converted;
+  }
+
+  /**
+   * @description JSON Schema allows leaving out `type` for objects and arrays,
+   * while MikroValid needs it. Also ensures `type` is the first key.
+   */
+  private withInferredType(result: Record<string, any>, schema: Record<string, any>) {
+    const { type, ...rest } = result;
+
+    if (type) return { type, ...rest };
+    if (schema.properties) return { type: 'object', ...rest };
+    if (schema.items !== undefined || schema.prefixItems || schema.contains)
+      return { type: 'array', ...rest };
+
+    return rest;
+  }
+
+  /**
+   * @description Escapes a key for use in a JSON Pointer (RFC 6901).
+   */
+  private escapePointer(key: string) {
+    return key.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  /**
+   * @description Gets the value of a key that an object has itself, ignoring
+   * anything it inherits, such as `toString`.
+   */
+  private getOwn<Value>(object: Record<string, Value>, key: string): Value | undefined {
+    return Object.prototype.hasOwnProperty.call(object, key) ? object[key] : undefined;
+  }
+
+  /**
+   * @description Gets a pattern for the `cidr` format: an IPv4 address with a prefix
+   * of up to 32 bits, or an IPv6 address (RFC 4291), which may be compressed with `::`
+   * or end with an IPv4 address, with a prefix of up to 128 bits.
+   */
+  private getCidrPattern() {
+    const octet = '(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)';
+    const ipv4 = `(?:${octet}\\.){3}${octet}`;
+    const group = '[0-9a-fA-F]{1,4}';
+    const lastGroups = `(?:${group}:${group}|${ipv4})`;
+    const ipv6 = [
+      `(?:${group}:){6}${lastGroups}`,
+      `::(?:${group}:){5}${lastGroups}`,
+      `(?:${group})?::(?:${group}:){4}${lastGroups}`,
+      `(?:(?:${group}:){0,1}${group})?::(?:${group}:){3}${lastGroups}`,
+      `(?:(?:${group}:){0,2}${group})?::(?:${group}:){2}${lastGroups}`,
+      `(?:(?:${group}:){0,3}${group})?::${group}:${lastGroups}`,
+      `(?:(?:${group}:){0,4}${group})?::${lastGroups}`,
+      `(?:(?:${group}:){0,5}${group})?::${group}`,
+      `(?:(?:${group}:){0,6}${group})?::`
+    ].join('|');
+
+    return `^(?:${ipv4}/(?:3[0-2]|[12]?\\d)|(?:${ipv6})/(?:12[0-8]|1[01]\\d|[1-9]?\\d))$`;
+  }
+
+  /**
+   * @description Converts a MikroValid schema, such as one from `schemaFrom()`,
+   * to a JSON Schema 2020-12 document.
+   *
+   * Built-in formats without a JSON Schema counterpart are expressed as patterns,
+   * while custom formats are kept as they are.
+   * References to `definitions` point to `$defs` instead.
+   * Stripping unknown properties has no JSON Schema counterpart, so
+   * `additionalProperties: 'strip'` is exported as `true`, and neither does
+   * comparing elements by a key, so only `uniqueItems: true` is exported.
+   *
+   * Anything that changes what is valid, but cannot be translated, is returned
+   * in `unsupported` together with its location in the source schema. This
+   * includes flags on `matchesPattern`, since JSON Schema patterns have none,
+   * `validate` functions, custom keywords and `errorMessage`.
+   *
+   * @example
+   * import { JsonSchemaConverter } from 'mikrovalid';
+   *
+   * const { schema, unsupported } = new JsonSchemaConverter().toJsonSchema({
+   *   properties: {
+   *     name: { type: 'string', matchesPattern: /^[A-Z]/ },
+   *     age: { type: 'number', minValue: 0 },
+   *     required: ['name']
+   *   }
+   * });
+   */
+  public toJsonSchema(schema: {
+    properties?: any;
+    definitions?: Record<string, any>;
+  }): JsonSchemaExport {
+    const unsupported: UnsupportedKeyword[] = [];
+    const { definitions } = schema;
+
+    return {
+      schema: {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        ...this.toJsonSchemaNode(
+          { type: 'object', ...schema.properties },
+          '/properties',
+          unsupported
+        ),
+        ...(definitions && {
+          $defs: Object.fromEntries(
+            Object.keys(definitions).map((name: string) => [
+              name,
+              this.toJsonSchemaNode(
+                definitions[name],
+                `/definitions/${this.escapePointer(name)}`,
+                unsupported
+              )
+            ])
+          )
+        })
+      },
+      unsupported
+    };
+  }
+
+  /**
+   * @description Converts a single MikroValid definition and any nested definitions,
+   * recording anything that can't be translated.
+   */
+  private toJsonSchemaNode(
+    node: Record<string, any>,
+    path: string,
+    unsupported: UnsupportedKeyword[]
+  ): JsonSchemaObject {
+    const result: JsonSchemaObject = {};
+    const types: string[] = typeof node.type === 'string' ? [node.type] : node.type || [];
+    const propertyKeys = Object.keys(node).filter(
+      (key: string) => !schemaKeywords.includes(key) && this.isDefinition(node[key])
+    );
+
+    for (const keyword in node) {
+      const keywordPath = `${path}/${this.escapePointer(keyword)}`;
+      const handler = this.getOwn(this.exportHandlers, keyword);
+
+      if (handler) handler(node[keyword], result, { types, path: keywordPath, unsupported });
+      else if (!propertyKeys.includes(keyword))
+        unsupported.push({ keyword, path: keywordPath, value: node[keyword] });
+    }
+
+    if (propertyKeys.length > 0)
+      result.properties = Object.fromEntries(
+        propertyKeys.map((key: string) => [
+          key,
+          this.toJsonSchemaNode(node[key], `${path}/${this.escapePointer(key)}`, unsupported)
+        ])
+      );
+
+    return result;
+  }
+
+  /**
+   * @description Converts the branches of a composition, such as `anyOf`.
+   */
+  private toJsonSchemaBranches(
+    branches: Record<string, any>[],
+    path: string,
+    unsupported: UnsupportedKeyword[]
+  ) {
+    return branches.map((branch: Record<string, any>, index: number) =>
+      this.toJsonSchemaNode(branch, `${path}/${index}`, unsupported)
+    );
+  }
+
+  /**
+   * @description JSON Schema has no discriminator, so it is expressed as a `oneOf`
+   * where each variant requires its own value for the discriminator property.
+   * Uses `allOf` if there already is a `oneOf`.
+   */
+  private addDiscriminator(
+    result: JsonSchemaObject,
+    { propertyName, mapping }: Discriminator,
+    path: string,
+    unsupported: UnsupportedKeyword[]
+  ) {
+    const variants = Object.keys(mapping).map((tag: string) => {
+      const variant = this.toJsonSchemaNode(
+        { type: 'object', ...mapping[tag] },
+        `${path}/mapping/${this.escapePointer(tag)}`,
+        unsupported
+      );
+
+      return {
+        ...variant,
+        properties: { ...variant.properties, [propertyName]: { const: tag } },
+        required: [...new Set([propertyName, ...(variant.required || [])])]
+      };
+    });
+
+    if (!result.oneOf) result.oneOf = variants;
+    else result.allOf = [...(result.allOf || []), { oneOf: variants }];
+  }
+
+  /**
+   * @description Checks if a value is a (nested) definition, as opposed to
+   * the value of a custom keyword or a `validate` function.
+   */
+  private isDefinition(value: unknown) {
+    return Object.prototype.toString.call(value) === '[object Object]';
+  }
+
+  /**
+   * @description Checks if a regular expression has flags that change what it matches,
+   * which JSON Schema patterns can't express. Flags such as `g` only change how
+   * it is used, and JSON Schema patterns already have the Unicode semantics of `u`.
+   */
+  private hasDroppedFlags(pattern: RegExp) {
+    return /[^dguy]/.test(pattern.flags);
+  }
+
+  /**
+   * @description Adds a pattern, using `allOf` if there already is one.
+   */
+  private addPattern(result: JsonSchemaObject, pattern: string) {
+    if (!result.pattern) result.pattern = pattern;
+    else result.allOf = [...(result.allOf || []), { pattern }];
+  }
+
+  /**
+   * @description MikroValid uses the same length keywords for strings and arrays,
+   * while JSON Schema uses `minItems`/`maxItems` for arrays.
+   */
+  private addLength(
+    result: JsonSchemaObject,
+    types: string[],
+    value: number,
+    bound: 'min' | 'max'
+  ) {
+    if (types.includes('array'))
+      result[`${bound}Items`] = bound === 'min' ? Math.max(result.minItems ?? 0, value) : value;
+    if (types.length === 0 || types.some((type: string) => type !== 'array'))
+      result[`${bound}Length`] = value;
+  }
+}
@@ -1,435 +1,2236 @@
+import { schemaKeywords } from './keywords.js';
+import { ValidationException } from '../errors/ValidationException.js';
+
 import {
-  FirstLevelDefinition,
+  AdditionalProperties,
+  AsyncValidationOptions,
+  CompiledComposition,
+  CheckRule,
+  CompiledCondition,
+  CompiledDefinition,
+  CompiledDiscriminator,
+  CompiledValidator,
+  CompileContext,
+  CompositionKeyword,
+  Discriminator,
+  ErrorMessage,
+  Infer,
+  MikroValidOptions,
+  ParseResult,
+  ReferenceSchema,
   PropertySchema,
   Result,
   RootDefinition,
-  SchemaDefinition,
+  TestResult,
+  UniqueItems,
+  ValidationCheck,
+  ValidationContext,
   ValidationError,
-  ValidationFormat,
+  ValidationFormatRule,
+  ValidationKeyword,
+  ValidationOptions,
+  ValidationOutcome,
   ValidationResult,
   ValidationSchema,
+  ValidationState,
   ValidationTypes,
   ValidationValue
 } from '../interfaces/MikroValid.js';
 
-export class MikroValid {
+export class MikroValid<
+  Formats extends string = never,
+  Keywords extends Record<string, any> = Record<never, never>
+> {
+  /**
+   * Toggle to silence (suppress) non-critical messages, such as warnings.
+   */
+  private readonly isSilent: boolean;
+
+  /**
+   * How to handle unknown properties, unless a schema definition sets `additionalProperties`.
+   */
+  private readonly additionalProperties: AdditionalProperties;
+
+  /**
+   * Formats that can be used with the `format` keyword. Valid built-in formats are:
+   * - `alphanumeric`
+   * - `cidr`
+   * - `date`
+   * - `email`
+   * - `hexColor`
+   * - `hostname`
+   * - `ipv4`
+   * - `ipv6`
+   * - `numeric`
+   * - `semver`
+   * - `ulid`
+   * - `url`
+   * - `uuid`
+   *
+   * Custom formats added with `registerFormat()` are also kept here.
+   */
+  private readonly formats: Record<string, ValidationFormatRule> = {
+    alphanumeric: /^[a-zA-Z0-9]+$/,
+    cidr: (value: string) => this.isCidr(value),
+    date: /^\d{4}-\d{2}-\d{2}$/,
+    email: /^[a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,4}$/,
+    hexColor: /^#?([a-f0-9]{6}|[a-f0-9]{3})$/i,
+    hostname:
+      /^(?=.{1,253}$)[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*$/i,
+    ipv4: /^(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/,
+    ipv6: (value: string) => this.isIPv6(value),
+    numeric: /^-?\d+(\.\d+)?$/,
+    semver:
+      /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/,
+    ulid: /^[0-7][0-9a-hjkmnp-tv-z]{25}$/i,
+    url: /^(https?):\/\/[^\s$.?#].[^\s]*$/,
+    uuid: /^(?:[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/i
+  };
+
+  /**
+   * Custom keywords added with `registerKeyword()`.
+   */
+  private readonly keywords: Record<string, ValidationKeyword> = {};
+
+  /**
+   * Creates the check for each built-in keyword, given the keyword's value in a definition.
+   */
+  private readonly checkBuilders: Record<string, (keywordValue: any) => CheckRule> = {
+    type: (type: ValidationTypes) => ({
+      validator: (value) => this.isCorrectType(type, value),
+      error: 'Invalid type',
+      params: { type },
+      actual: (value) => this.getTypeName(value)
+    }),
+    format: (format: string) => {
+      const rule = Object.prototype.hasOwnProperty.call(this.formats, format)
+        ? this.formats[format]
+        : undefined;
+      return {
+        validator: (value) => this.isCorrectFormat(rule, value as string),
+        error: 'Invalid format',
+        params: { format }
+      };
+    },
+    minLength: (minLength: number) => ({
+      validator: (value) => this.isMinimumLength(minLength, value),
+      error: 'Length too short',
+      params: { min: minLength },
+      actual: (value) => this.getLength(value)
+    }),
+    maxLength: (maxLength: number) => ({
+      validator: (value) => this.isMaximumLength(maxLength, value),
+      error: 'Length too long',
+      params: { max: maxLength },
+      actual: (value) => this.getLength(value)
+    }),
+    minValue: (minValue: number) => ({
+      validator: (value) => this.isMinimumValue(minValue, value as number),
+      error: 'Value too small',
+      params: { min: minValue }
+    }),
+    maxValue: (maxValue: number) => ({
+      validator: (value) => this.isMaximumValue(maxValue, value as number),
+      error: 'Value too large',
+      params: { max: maxValue }
+    }),
+    exclusiveMinValue: (exclusiveMinValue: number) => ({
+      validator: (value) => (value as number) > exclusiveMinValue,
+      error: 'Value too small',
+      params: { min: exclusiveMinValue }
+    }),
+    exclusiveMaxValue: (exclusiveMaxValue: number) => ({
+      validator: (value) => (value as number) < exclusiveMaxValue,
+      error: 'Value too large',
+      params: { max: exclusiveMaxValue }
+    }),
+    multipleOf: (multipleOf: number) => ({
+      validator: (value) => this.isMultipleOf(multipleOf, value as number),
+      error: `Value must be a multiple of ${multipleOf}`,
+      params: { multipleOf }
+    }),
+    matchesPattern: (matchesPattern: RegExp) => {
+      const pattern = new RegExp(matchesPattern);
+      return {
+        validator: (value) => this.matchesPattern(pattern, value as string),
+        error: 'Pattern does not match',
+        params: { pattern: pattern.source, flags: pattern.flags }
+      };
+    },
+    enum: (values: readonly unknown[]) => ({
+      validator: (value) => values.some((allowed: unknown) => this.isDeepEqual(allowed, value)),
+      error: `Value must be one of: ${values.map((allowed: unknown) => JSON.stringify(allowed)).join(', ')}`,
+      params: { allowed: values }
+    }),
+    const: (constant: unknown) => ({
+      validator: (value) => this.isDeepEqual(constant, value),
+      error: `Value must be: ${JSON.stringify(constant)}`,
+      params: { allowed: constant }
+    }),
+    uniqueItems: (uniqueItems: UniqueItems) => {
+      const select = this.getItemSelector(uniqueItems);
+      return {
+        validator: (value) => this.hasUniqueItems(select, value),
+        error: 'Items are not unique',
+        params: {}
+      };
+    }
+  };
+
+  /**
+   * Converts a value to a type, returning `undefined` if that is not possible.
+   */
+  private readonly coercers: Record<string, (value: any) => ValidationValue | undefined> = {
+    number: (value) =>
+      typeof value === 'string' && /^\s*-?\d+(\.\d+)?\s*$/.test(value) ? Number(value) : undefined,
+    integer: (value) =>
+      typeof value === 'string' && /^\s*-?\d+\s*$/.test(value) ? Number(value) : undefined,
+    boolean: (value) => {
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+    },
+    array: (value) => {
+      if (typeof value === 'string')
+        return value.trim() ? value.split(',').map((item: string) => item.trim()) : [];
+      if (typeof value === 'number' || typeof value === 'boolean')
+        return [value] as ValidationValue;
+    },
+    object: (value) => {
+      if (typeof value !== 'string') return;
+      try {
+        const parsed = JSON.parse(value);
+        return this.isObject(parsed) ? parsed : undefined;
+      } catch {
+        return;
+      }
+    }
+  };
+
+  /**
+   * Decides the outcome of each composition keyword, given the errors of each of its branches.
+   */
+  private readonly compositionRules: Record<
+    CompositionKeyword,
+    (branchErrors: ValidationError[][]) => ValidationOutcome
+  > = {
+    allOf: (branchErrors) =>
+      branchErrors.every((errors: ValidationError[]) => errors.length === 0) ||
+      `Does not match all schemas in allOf: ${this.describeBranches(branchErrors)}`,
+    anyOf: (branchErrors) =>
+      branchErrors.some((errors: ValidationError[]) => errors.length === 0) ||
+      `Does not match any schema in anyOf: ${this.describeBranches(branchErrors)}`,
+    oneOf: (branchErrors) => {
+      const matches = branchErrors.flatMap((errors: ValidationError[], index: number) =>
+        errors.length === 0 ? [index + 1] : []
+      );
+
+      if (matches.length === 1) return true;
+      if (matches.length > 1) return `Matches more than one schema in oneOf: ${matches.join(', ')}`;
+      return `Does not match any schema in oneOf: ${this.describeBranches(branchErrors)}`;
+    },
+    not: ([errors]) => errors.length > 0 || 'Matches the schema in not'
+  };
+
+  constructor(options: boolean | MikroValidOptions = {}) {
+    const { isSilent = false, additionalProperties = true } =
+      typeof options === 'boolean' ? { isSilent: options } : options;
+
+    this.isSilent = isSilent;
+    this.additionalProperties = additionalProperties;
+  }
+
+  /**
+   * @description Registers a custom format for this instance, either as a
+   * regular expression or as a function that returns whether the value is valid.
+   *
+   * The returned instance accepts the new format name in schemas.
+   *
+   * @example
+   * const mikrovalid = new MikroValid()
+   *   .registerFormat('sku', /^[A-Z]{3}-\d{4}$/)
+   *   .registerFormat('tenantSlug', (value) => value === value.toLowerCase());
+   *
+   * mikrovalid.test({ properties: { sku: { type: 'string', format: 'sku' } } }, input);
+   */
+  public registerFormat<Name extends string>(
+    name: Name,
+    rule: ValidationFormatRule
+  ): MikroValid<Formats | Name, Keywords> {
+    this.formats[name] = rule;
+    return this as MikroValid<Formats | Name, Keywords>;
+  }
+
+  /**
+   * @description Registers a custom keyword for this instance. Whenever a schema
+   * definition uses the keyword, its validator is called with the input value,
+   * the keyword's value from the schema and the validation context.
+   *
+   * The returned instance accepts the new keyword in schemas.
+   *
+   * @example
+   * const mikrovalid = new MikroValid().registerKeyword('divisibleBy', {
+   *   validator: (value: number, divisor: number) => value % divisor === 0,
+   *   error: 'Value is not divisible'
+   * });
+   *
+   * mikrovalid.test({ properties: { amount: { type: 'number', divisibleBy: 5 } } }, input);
+   */
+  public registerKeyword<Name extends string, Value>(
+    name: Name,
+    keyword: ValidationKeyword<Value>
+  ): MikroValid<Formats, Keywords & Record<Name, Value>> {
+    if (schemaKeywords.includes(name))
+      throw new Error(`Cannot register the built-in keyword '${name}'!`);
+
+    this.keywords[name] = keyword;
+    return this as MikroValid<Formats, Keywords & Record<Name, Value>>;
+  }
+
+  /**
+   * @description MikroValid is a lightweight validator
+   * that works both on the client and server.
+   *
+   * Provide a JSON object schema and your input and MikroValid
+   * takes care of the rest.
+   *
+   * @example
+   * import { MikroValid } from 'mikrovalid';
+   *
+   * const mikrovalid = new MikroValid();
+   *
+   * const schema = {
+   *   properties: {
+   *     personal: {
+   *       name: { type: 'string' },
+   *       required: ['name']
+   *     },
+   *     work: {
+   *       office: { type: 'string' },
+   *       currency: { type: 'string' },
+   *       salary: { type: 'number' },
+   *       required: ['office']
+   *     },
+   *     required: ['personal', 'work']
+   *   }
+   * };
+   *
+   * const input = {
+   *   personal: {
+   *     name: 'Sam Person'
+   *   },
+   *   work: {
+   *     office: 'London',
+   *     currency: 'GBP',
+   *     salary: 10000
+   *   }
+   * };
+   *
+   * const { success, errors } = mikrovalid.test(schema, input);
+   *
+   * console.log('Was the test successful?', success);
+   */
+  public test<Schema extends { properties: any }>(
+    schema: Schema & RootDefinition<Schema, Formats, Keywords>,
+    input: Record<string, any>,
+    options: ValidationOptions = {}
+  ): TestResult {
+    return this.compile(schema, options)(input);
+  }
+
+  /**
+   * @description Compiles a schema ahead of time into a reusable validator function.
+   *
+   * All the work that only depends on the schema, such as figuring out which
+   * checks to run and preparing regular expressions, is done once, here,
+   * rather than on every validation. Prefer this over `test()` when the same
+   * schema is used to validate a lot of input.
+   *
+   * Formats and keywords are resolved when compiling, so register any
+   * custom formats and keywords before calling this.
+   *
+   * `test()` and the other methods taking a schema compile it on every call,
+   * so they always use the schema as it is. Compile a schema again after
+   * changing it.
+   *
+   * @example
+   * const validate = mikrovalid.compile(schema);
+   *
+   * for (const event of events) {
+   *   const { success, errors } = validate(event);
+   * }
+   */
+  public compile<Schema extends { properties: any }>(
+    schema: Schema & RootDefinition<Schema, Formats, Keywords>,
+    options: ValidationOptions = {}
+  ): CompiledValidator {
+    const definition = this.compileSchema(schema);
+    const { coerce, useDefaults } = options;
+    const maxErrors = this.getMaxErrors(options);
+    const strip = definition.isStripping;
+
+    return (input: Record<string, any>) => {
+      if (!input) throw new Error('Missing input!');
+
+      const state: ValidationState = {
+        results: [],
+        errors: [],
+        root: input,
+        visiting: new WeakMap(),
+        coerce,
+        useDefaults,
+        strip,
+        maxErrors
+      };
+      const data = this.validateRoot(definition, input, state);
+
+      return this.getTestResult(state, data);
+    };
+  }
+
+  /**
+   * @description Works like `test()`, but also supports asynchronous custom
+   * keyword validators and `validate` functions, for example to check that a
+   * username is unique. Asynchronous checks run concurrently.
+   *
+   * Use `signal` to abort the validation, or `timeout` to abort it after a
+   * number of milliseconds. The same signal is available to the validators
+   * in their context. An aborted validation rejects with the abort reason.
+   *
+   * @example
+   * const mikrovalid = new MikroValid().registerKeyword('unique', {
+   *   validator: async (value: string) => !(await repository.exists(value)),
+   *   error: 'Already taken'
+   * });
+   *
+   * const { success, errors } = await mikrovalid.testAsync(
+   *   { properties: { username: { type: 'string', unique: true } } },
+   *   input,
+   *   { timeout: 1000 }
+   * );
+   */
+  public async testAsync<Schema extends { properties: any }>(
+    schema: Schema & RootDefinition<Schema, Formats, Keywords>,
+    input: Record<string, any>,
+    options: AsyncValidationOptions = {}
+  ) {
+    if (!input) throw new Error('Missing input!');
+
+    const { signal, timeout, coerce, useDefaults } = options;
+    const maxErrors = this.getMaxErrors(options);
+    signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', abort, { once: true });
+
+    const timer =
+      timeout !== undefined
+        ? setTimeout(
+            () => controller.abort(new Error(`Validation timed out after ${timeout} ms!`)),
+            timeout
+          )
+        : undefined;
+
+    try {
+      const definition = this.compileSchema(schema);
+      const state: ValidationState = {
+        results: [],
+        errors: [],
+        root: input,
+        visiting: new WeakMap(),
+        pending: [],
+        signal: controller.signal,
+        coerce,
+        useDefaults,
+        strip: definition.isStripping,
+        maxErrors
+      };
+      const data = this.validateRoot(definition, input, state);
+
+      await this.settlePendingResults(state.pending!, controller.signal);
+
+      return this.getTestResult(state, data);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * @description Creates the outcome of a test run.
+   */
+  private getTestResult(state: ValidationState, data: Record<string, any>): TestResult {
+    const aggregatedErrors = this.compileErrors(state.results, state.errors);
+    const success = this.isSuccessful(state.results, aggregatedErrors);
+
+    return {
+      errors: aggregatedErrors.slice(0, state.maxErrors),
+      success,
+      ...(this.hasOutput(state) && { data })
+    };
+  }
+
+  /**
+   * @description Gets the number of errors after which to stop the validation, if any.
+   */
+  private getMaxErrors({ abortEarly, maxErrors }: ValidationOptions) {
+    if (maxErrors !== undefined && !(Number.isInteger(maxErrors) && maxErrors > 0))
+      throw new Error('The maxErrors option must be a positive integer!');
+
+    return abortEarly ? 1 : maxErrors;
+  }
+
+  /**
+   * @description Checks if the validation has found as many errors as it may,
+   * in which case it stops. Pending asynchronous validations don't count.
+   */
+  private hasMaxErrors({ maxErrors, results, errors }: ValidationState) {
+    if (maxErrors === undefined) return false;
+
+    const failures = results.filter((result: Result) => result.success === false);
+    return errors.length + failures.length >= maxErrors;
+  }
+
+  /**
+   * @description Checks if the input is valid for the schema.
+   * Works as a type guard, so the input is typed based on the schema afterwards.
+   *
+   * @example
+   * if (mikrovalid.is(schema, input)) console.log(input.name);
+   */
+  public is<const Schema extends { properties: any }>(
+    schema: Schema & RootDefinition<Schema, Formats, Keywords>,
+    input: Record<string, any>
+  ): input is Infer<Schema> {
+    return this.test(schema, input).success;
+  }
+
+  /**
+   * @description Validates the input and throws a `ValidationException`,
+   * carrying all validation errors, if it is not valid for the schema.
+   *
+   * @example
+   * mikrovalid.assert(schema, input);
+   * console.log(input.name);
+   */
+  public assert<const Schema extends { properties: any }>(
+    schema: Schema & RootDefinition<Schema, Formats, Keywords>,
+    input: Record<string, any>
+  ): asserts input is Infer<Schema> {
+    const { success, errors } = this.test(schema, input);
+    if (!success) throw new ValidationException(errors);
+  }
+
+  /**
+   * @description Validates the input and returns either the typed data
+   * or the validation errors. When coercing, using defaults or stripping
+   * unknown properties, the data is a converted copy of the input.
+   *
+   * @example
+   * const result = mikrovalid.parse(schema, input);
+   * if (result.success) console.log(result.data.name);
+   * else console.log(result.errors);
+   */
+  public parse<const Schema extends { properties: any }>(
+    schema: Schema & RootDefinition<Schema, Formats, Keywords>,
+    input: Record<string, any>,
+    options: ValidationOptions = {}
+  ): ParseResult<Infer<Schema>> {
+    const { success, errors, data = input } = this.test(schema, input, options);
+    if (!success) return { success, errors };
+    return { success, data: data as Infer<Schema> };
+  }
+
+  /**
+   * @description Aggregate errors into a flat array.
+   */
+  private compileErrors(results: Result[], errors: ValidationError[]): ValidationError[] {
+    const resultErrors = results.filter((result: Result) => result.success === false);
+    return [...errors, ...resultErrors].flatMap((error: Result) => error);
+  }
+
+  /**
+   * @description Check if this was, ultimately, a successful and valid test run.
+   */
+  private isSuccessful(results: Result[], errors: ValidationError[]) {
+    return (
+      results.every((result: Record<string, any>) => result.success === true) && errors.length === 0
+    );
+  }
+
+  /**
+   * @description Compiles the root definition of a schema, resolving any
+   * references to its `definitions` along the way.
+   */
+  private compileSchema(schema: ReferenceSchema): CompiledDefinition {
+    return this.compileDefinition(
+      schema.properties,
+      { schema, references: new Map() },
+      '/properties'
+    );
+  }
+
+  /**
+   * @description Compiles a schema definition, and any nested definitions,
+   * so that validating against it needs as little work as possible.
+   *
+   * The schema path is where the definition is in the schema, as a JSON Pointer.
+   * Definitions that don't set `additionalProperties` use the given default,
+   * and also know about any property keys they inherit from another definition.
+   */
+  private compileDefinition(
+    definition: Record<string, any>,
+    context: CompileContext,
+    schemaPath: string,
+    defaultAdditionalProperties: AdditionalProperties = this.additionalProperties,
+    inheritedKeys: string[] = []
+  ): CompiledDefinition {
+    if (definition?.$ref)
+      return this.compileReference(
+        definition,
+        context,
+        schemaPath,
+        defaultAdditionalProperties,
+        inheritedKeys
+      );
+
+    const propertyKeys = this.getPropertyKeys(definition);
+    const properties = this.compileProperties(definition, propertyKeys, context, schemaPath);
+    const { items, prefixItems, additionalItems, contains, minContains, maxContains } =
+      this.compileItems(definition, context, schemaPath);
+    const composition = this.compileComposition(definition, context, schemaPath);
+    const conditions = this.compileConditions(definition, context, schemaPath);
+    const conditionalBranches = conditions.flatMap(({ then, else: otherwise }) =>
+      [then, otherwise].filter(Boolean)
+    ) as CompiledDefinition[];
+    const declaredAdditionalProperties =
+      definition?.additionalProperties ?? defaultAdditionalProperties;
+    const additionalProperties = this.getAdditionalPropertiesMode(declaredAdditionalProperties);
+
+    const ownKeys = this.getKnownKeys(
+      inheritedKeys.concat(propertyKeys),
+      composition
+        .filter(({ keyword }) => keyword !== 'not')
+        .flatMap(({ branches }) => branches)
+        .concat(conditionalBranches)
+    );
+    const discriminator = this.compileDiscriminator(
+      definition,
+      context,
+      schemaPath,
+      declaredAdditionalProperties,
+      ownKeys
+    );
+    const variants = Object.values(discriminator?.mapping || {});
+
+    return {
+      checks: this.compileChecks(definition, schemaPath),
+      propertyKeys,
+      properties,
+      requiredKeys: definition?.required || [],
+      knownKeys: this.getKnownKeys(ownKeys, variants),
+      additionalProperties,
+      isStripping:
+        additionalProperties === 'strip' ||
+        this.hasStrippingDefinition(
+          Object.values(properties),
+          [items],
+          prefixItems,
+          composition.flatMap(({ branches }) => branches),
+          conditionalBranches,
+          variants
+        ),
+      items,
+      prefixItems,
+      additionalItems,
+      contains,
+      minContains,
+      maxContains,
+      type: definition?.type,
+      default: definition?.default,
+      composition,
+      discriminator,
+      conditions,
+      dependentRequired: definition?.dependentRequired || {},
+      errorMessage: definition?.errorMessage,
+      schemaPath
+    };
+  }
+
+  /**
+   * @description Compiles the definitions of the given properties.
+   */
+  private compileProperties(
+    definition: Record<string, any>,
+    propertyKeys: string[],
+    context: CompileContext,
+    schemaPath: string
+  ) {
+    const properties: Record<string, CompiledDefinition | undefined> = {};
+
+    for (const key of propertyKeys)
+      properties[key] = this.isObject(definition[key])
+        ? this.compileDefinition(definition[key], context, this.getPointer(schemaPath, key))
+        : undefined;
+
+    return properties;
+  }
+
+  /**
+   * @description Compiles the definitions of the elements of an array: those for
+   * specific positions, with `prefixItems`, the one for any others, with `items`,
+   * and the one that some of them must match, with `contains`.
+   */
+  private compileItems(
+    definition: Record<string, any>,
+    context: CompileContext,
+    schemaPath: string
+  ) {
+    const items = this.isObject(definition?.items)
+      ? this.compileDefinition(definition.items, context, `${schemaPath}/items`)
+      : undefined;
+    const prefixItems = (definition?.prefixItems || []).map(
+      (item: Record<string, any>, index: number) =>
+        this.compileDefinition(item, context, `${schemaPath}/prefixItems/${index}`)
+    ) as CompiledDefinition[];
+    const contains = this.isObject(definition?.contains)
+      ? this.compileDefinition(definition.contains, context, `${schemaPath}/contains`)
+      : undefined;
+
+    return {
+      items,
+      prefixItems,
+      additionalItems: definition?.additionalItems !== false,
+      contains,
+      minContains: definition?.minContains ?? 1,
+      maxContains: definition?.maxContains
+    };
+  }
+
+  /**
+   * @description Compiles the branches of any composition keywords, such as `anyOf`.
+   *
+   * Unknown properties are handled by the definition that has the composition,
+   * so branches allow them unless they set `additionalProperties` themselves.
+   */
+  private compileComposition(
+    definition: Record<string, any>,
+    context: CompileContext,
+    schemaPath: string
+  ): CompiledComposition[] {
+    if (!definition) return [];
+
+    return (Object.keys(this.compositionRules) as CompositionKeyword[])
+      .filter((keyword: CompositionKeyword) => definition[keyword])
+      .map((keyword: CompositionKeyword) => ({
+        keyword,
+        branches:
+          keyword === 'not'
+            ? [this.compileDefinition(definition.not, context, `${schemaPath}/not`, true)]
+            : definition[keyword].map((branch: Record<string, any>, index: number) =>
+                this.compileDefinition(branch, context, `${schemaPath}/${keyword}/${index}`, true)
+              )
+      }));
+  }
+
+  /**
+   * @description Compiles `if`, `then` and `else`, and any `dependentSchemas`,
+   * which apply when the object has the property that they are listed under.
+   *
+   * Like composition branches, these allow unknown properties unless they
+   * set `additionalProperties` themselves.
+   */
+  private compileConditions(
+    definition: Record<string, any>,
+    context: CompileContext,
+    schemaPath: string
+  ): CompiledCondition[] {
+    if (!definition) return [];
+
+    const compileBranch = (branch: Record<string, any> | undefined, branchPath: string) =>
+      this.isObject(branch)
+        ? this.compileDefinition(branch!, context, `${schemaPath}/${branchPath}`, true)
+        : undefined;
+    const dependentSchemas: Record<string, Record<string, any>> = definition.dependentSchemas || {};
+
+    return [
+      ...(definition.if
+        ? [
+            {
+              if: compileBranch(definition.if, 'if'),
+              then: compileBranch(definition.then, 'then'),
+              else: compileBranch(definition.else, 'else')
+            }
+          ]
+        : []),
+      ...Object.keys(dependentSchemas).map((property: string) => ({
+        property,
+        then: compileBranch(
+          dependentSchemas[property],
+          this.getPointer('dependentSchemas', property)
+        )
+      }))
+    ];
+  }
+
+  /**
+   * @description Compiles the variants of a discriminator.
+   *
+   * Only the selected variant is validated, so variants handle unknown properties
+   * like the definition that has the discriminator, knowing about its property keys.
+   */
+  private compileDiscriminator(
+    definition: Record<string, any>,
+    context: CompileContext,
+    schemaPath: string,
+    additionalProperties: AdditionalProperties,
+    knownKeys: string[]
+  ): CompiledDiscriminator | undefined {
+    if (!definition?.discriminator) return;
+
+    const { propertyName, mapping } = definition.discriminator as Discriminator;
+    const inheritedKeys = [propertyName, ...knownKeys];
+
+    return {
+      propertyName,
+      mapping: Object.fromEntries(
+        Object.entries(mapping).map(([tag, variant]) => [
+          tag,
+          this.compileDefinition(
+            variant,
+            context,
+            this.getPointer(`${schemaPath}/discriminator/mapping`, tag),
+            additionalProperties,
+            inheritedKeys
+          )
+        ])
+      )
+    };
+  }
+
+  /**
+   * @description Compiles a definition that refers to another one with `$ref`,
+   * where any other keywords in the definition override the referenced ones.
+   *
+   * Every reference is only compiled once (for each way it is used), and is
+   * available before it has been fully compiled, so that recursive definitions
+   * such as trees can refer to themselves. Its schema path is that of the
+   * referenced definition, unless it overrides any keywords.
+   */
+  private compileReference(
+    definition: Record<string, any>,
+    context: CompileContext,
+    schemaPath: string,
+    defaultAdditionalProperties: AdditionalProperties,
+    inheritedKeys: string[]
+  ): CompiledDefinition {
+    const { $ref, ...overrides } = definition;
+    const source = Object.keys(overrides).length > 0 ? definition : $ref;
+    const usage = `${defaultAdditionalProperties}:${inheritedKeys.join(',')}`;
+
+    const compiledUsages = context.references.get(source) || new Map();
+    context.references.set(source, compiledUsages);
+    if (compiledUsages.has(usage)) return compiledUsages.get(usage);
+
+    const compiled = {} as CompiledDefinition;
+    compiledUsages.set(usage, compiled);
+
+    const target = this.resolveReference($ref, context);
+
+    return Object.assign(
+      compiled,
+      this.compileDefinition(
+        { ...target.definition, ...overrides },
+        context,
+        source === $ref ? target.schemaPath : schemaPath,
+        defaultAdditionalProperties,
+        inheritedKeys
+      )
+    );
+  }
+
+  /**
+   * @description Gets the definition that a reference points to, and its schema path,
+   * which is either the root definition (`#`) or one of the schema's `definitions`,
+   * such as `#/definitions/address`.
+   */
+  private resolveReference(
+    ref: string,
+    context: CompileContext,
+    visited: string[] = []
+  ): { definition: Record<string, any>; schemaPath: string } {
+    if (visited.includes(ref))
+      throw new Error(`Circular reference: '${[...visited, ref].join("' -> '")}'!`);
+
+    const definition = ref === '#' ? context.schema.properties : this.getDefinition(ref, context);
+
+    if (!definition || !this.isObject(definition))
+      throw new Error(`Unable to resolve the reference: '${ref}'!`);
+    if (!definition.$ref)
+      return { definition, schemaPath: ref === '#' ? '/properties' : ref.slice(1) };
+
+    const { $ref, ...overrides } = definition;
+    const target = this.resolveReference($ref, context, [...visited, ref]);
+
+    return { ...target, definition: { ...target.definition, ...overrides } };
+  }
+
+  /**
+   * @description Gets one of the schema's `definitions` from a reference such as
+   * `#/definitions/address`, where the name is unescaped as a JSON Pointer (RFC 6901).
+   */
+  private getDefinition(ref: string, context: CompileContext) {
+    const prefix = '#/definitions/';
+    const { definitions = {} } = context.schema;
+    if (typeof ref !== 'string' || !ref.startsWith(prefix)) return;
+
+    const name = ref.slice(prefix.length).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (Object.prototype.hasOwnProperty.call(definitions, name)) return definitions[name];
+  }
+
+  /**
+   * @description Gets the given property keys, together with those
+   * that are known to the given branches or variants.
+   *
+   * A recursive reference may not be fully compiled yet, and adds no keys.
+   */
+  private getKnownKeys(keys: string[], definitions: CompiledDefinition[]) {
+    if (definitions.length === 0) return keys;
+
+    return [
+      ...new Set([...keys, ...definitions.flatMap((definition) => definition.knownKeys || [])])
+    ];
+  }
+
+  /**
+   * @description Checks if any of the given nested definitions strips unknown properties.
+   */
+  private hasStrippingDefinition(...definitions: (CompiledDefinition | undefined)[][]) {
+    for (const group of definitions)
+      for (const nested of group) if (nested?.isStripping) return true;
+
+    return false;
+  }
+
+  /**
+   * @description Gets how a definition handles unknown properties.
+   */
+  private getAdditionalPropertiesMode(additionalProperties: AdditionalProperties) {
+    if (additionalProperties === false) return 'reject';
+    if (additionalProperties === 'strip') return 'strip';
+    return 'passthrough';
+  }
+
+  /**
+   * @description Creates the field-level checks that a definition uses.
+   */
+  private compileChecks(definition: Record<string, any>, schemaPath: string): ValidationCheck[] {
+    if (!definition) return [];
+
+    const checks: ValidationCheck[] = [];
+
+    for (const keyword of Object.keys(this.checkBuilders)) {
+      const keywordValue = definition[keyword];
+      const isSet = keyword === 'const' || keywordValue !== false;
+
+      if (keywordValue !== undefined && isSet)
+        checks.push(
+          this.createCheck(
+            definition,
+            keyword,
+            this.checkBuilders[keyword](keywordValue),
+            schemaPath
+          )
+        );
+    }
+
+    const customKeywords = Object.keys(this.keywords).filter((name: string) =>
+      Object.prototype.hasOwnProperty.call(definition, name)
+    );
+
+    for (const name of customKeywords) {
+      const keywordValue = definition[name];
+      const { validator, error } = this.keywords[name];
+
+      if (keywordValue !== undefined)
+        checks.push(
+          this.createCheck(
+            definition,
+            name,
+            {
+              validator: (value, context) => validator(value, keywordValue, context),
+              error,
+              params: { [name]: keywordValue }
+            },
+            schemaPath
+          )
+        );
+    }
+
+    const { validate } = definition;
+    if (validate)
+      checks.push(
+        this.createCheck(
+          definition,
+          'validate',
+          {
+            validator: (value, context) => validate(value, context),
+            error: 'Custom validation failed',
+            params: {}
+          },
+          schemaPath
+        )
+      );
+
+    return checks;
+  }
+
+  /**
+   * @description Creates the check for a keyword in a definition from its rule.
+   *
+   * Every check is created with the same properties, in the same order, which
+   * keeps compiling cheap enough to do for every call to `test()`.
+   */
+  private createCheck(
+    definition: Record<string, any>,
+    keyword: string,
+    rule: CheckRule,
+    schemaPath: string
+  ): ValidationCheck {
+    return {
+      keyword,
+      validator: rule.validator,
+      error: rule.error,
+      params: rule.params,
+      actual: rule.actual,
+      message: this.getErrorMessage(definition.errorMessage, keyword),
+      schemaPath: `${schemaPath}/${keyword}`
+    };
+  }
+
+  /**
+   * @description Gets the custom error message, from `errorMessage`, for a keyword.
+   * A single message is used for every keyword.
+   */
+  private getErrorMessage(errorMessage: ErrorMessage | undefined, keyword: string) {
+    if (typeof errorMessage === 'string') return errorMessage;
+    if (errorMessage && Object.prototype.hasOwnProperty.call(errorMessage, keyword))
+      return errorMessage[keyword];
+  }
+
+  /**
+   * @description Gets the error for a keyword, which is either its custom error message,
+   * with any placeholders such as `{min}` replaced by the given parameters, or the default.
+   */
+  private getKeywordError(
+    errorMessage: ErrorMessage | undefined,
+    keyword: string,
+    params: Record<string, unknown>,
+    defaultError: string
+  ) {
+    const message = this.getErrorMessage(errorMessage, keyword);
+    return message === undefined ? defaultError : this.interpolate(message, params);
+  }
+
+  /**
+   * @description Creates the error for a keyword of a definition that isn't a field-level
+   * check, such as `required`, using its custom error message if it has one.
+   */
+  private createKeywordError(
+    definition: CompiledDefinition,
+    keyword: string,
+    key: string,
+    instancePath: string,
+    value: ValidationValue,
+    params: Record<string, unknown>,
+    defaultError: string
+  ): ValidationError {
+    return {
+      key,
+      value,
+      success: false,
+      error: this.getKeywordError(
+        definition.errorMessage,
+        keyword,
+        { ...params, value },
+        defaultError
+      ),
+      code: keyword,
+      params,
+      instancePath,
+      schemaPath: `${definition.schemaPath}/${keyword}`
+    };
+  }
+
+  /**
+   * @description Replaces placeholders such as `{min}` in an error message with
+   * the given parameters. Placeholders without a parameter are kept as they are.
+   */
+  private interpolate(message: string, params: Record<string, unknown>) {
+    return message.replace(/\{(\w+)\}/g, (placeholder: string, name: string) =>
+      Object.prototype.hasOwnProperty.call(params, name)
+        ? this.formatParameter(params[name])
+        : placeholder
+    );
+  }
+
+  /**
+   * @description Formats a parameter for use in an error message.
+   */
+  private formatParameter(param: unknown): string {
+    if (Array.isArray(param))
+      return param.map((item: unknown) => this.formatParameter(item)).join(', ');
+    if (typeof param === 'string' || param instanceof RegExp) return String(param);
+
+    return JSON.stringify(param) ?? String(param);
+  }
+
+  /**
+   * @description Validates the input against the root level of a schema.
+   */
+  private validateRoot(
+    definition: CompiledDefinition,
+    input: Record<string, any>,
+    state: ValidationState
+  ) {
+    const validated = this.validate(definition, input, state);
+    if (this.hasMaxErrors(state)) return validated;
+
+    const variant = this.handleDiscriminator('', '', validated, definition, input, state);
+    const output = this.handleComposition('', '', variant, definition, input, state);
+
+    return output as Record<string, any>;
+  }
+
+  /**
+   * @description This is the main recursive loop that checks
+   * all fields/properties and any nested objects.
+   *
+   * Returns the input, or a converted copy of it when coercing, using defaults or stripping.
+   */
+  private validate(
+    definition: CompiledDefinition,
+    input: Record<string, any>,
+    state: ValidationState,
+    propertyPath = '',
+    instancePath = '',
+    parent: Record<string, any> | ValidationValue[] = input
+  ) {
+    const { propertyKeys, properties, requiredKeys } = definition;
+    const output = this.hasOutput(state) ? { ...input } : input;
+    if (state.useDefaults) this.applyDefaults(definition, output);
+
+    this.checkForRequiredKeysErrors(
+      requiredKeys,
+      output,
+      state.errors,
+      definition,
+      propertyPath,
+      instancePath
+    );
+    this.checkForDependentRequiredErrors(
+      definition.dependentRequired,
+      output,
+      state.errors,
+      definition,
+      propertyPath,
+      instancePath
+    );
+    this.handleUnknownProperties(definition, output, state, propertyPath, instancePath);
+
+    for (const key of propertyKeys) {
+      if (this.hasMaxErrors(state)) break;
+
+      // Properties that the input only inherits, such as `toString`, are not set
+      if (!Object.prototype.hasOwnProperty.call(output, key)) continue;
+
+      const inputKey: ValidationValue = output[key];
+
+      if (!this.isDefined(inputKey)) continue;
+
+      const value = this.handleValidation(
+        this.getPropertyPath(propertyPath, key),
+        this.getPointer(instancePath, key),
+        inputKey,
+        properties[key],
+        output,
+        state
+      );
+
+      if (output !== input) output[key] = value;
+    }
+
+    return this.handleConditions(definition, output, state, propertyPath, instancePath, parent);
+  }
+
+  /**
+   * @description Validates an object against the definitions that apply to it
+   * because of a condition: `then` or `else`, depending on whether it matches `if`,
+   * and any `dependentSchemas` for the properties that it has.
+   *
+   * These definitions are validated like the rest of the object, so their errors are
+   * reported as they are, and their output (such as defaults) is used.
+   */
+  private handleConditions(
+    definition: CompiledDefinition,
+    input: Record<string, any>,
+    state: ValidationState,
+    propertyPath: string,
+    instancePath: string,
+    parent: Record<string, any> | ValidationValue[]
+  ) {
+    let output: ValidationValue = input;
+
+    for (const condition of definition.conditions) {
+      if (this.hasMaxErrors(state)) break;
+
+      if (condition.if) {
+        output = this.handleCondition(propertyPath, instancePath, output, condition, parent, state);
+        continue;
+      }
+
+      if (this.isDefined(input[condition.property!]))
+        output = this.validateValue(
+          propertyPath,
+          instancePath,
+          output,
+          condition.then!,
+          parent,
+          state
+        );
+    }
+
+    return output as Record<string, any>;
+  }
+
+  /**
+   * @description Validates a value against `then` if it matches `if`, or else against `else`.
+   *
+   * When `if` has asynchronous validators, both are validated separately, and
+   * the one that applies gives the result once `if` has settled.
+   */
+  private handleCondition(
+    propertyPath: string,
+    instancePath: string,
+    value: ValidationValue,
+    condition: CompiledCondition,
+    parent: Record<string, any> | ValidationValue[],
+    state: ValidationState
+  ): ValidationValue {
+    const conditionState = this.createBranchState(state);
+    this.validateValue(propertyPath, instancePath, value, condition.if!, parent, conditionState);
+
+    const branches = [condition.then, condition.else];
+    const isMatch = () => this.getBranchErrors(conditionState).length === 0;
+
+    if (!conditionState.pending?.length) {
+      const branch = branches[isMatch() ? 0 : 1];
+      return branch
+        ? this.validateValue(propertyPath, instancePath, value, branch, parent, state)
+        : value;
+    }
+
+    const branchStates = branches.map((branch?: CompiledDefinition) => {
+      const branchState = this.createBranchState(state);
+      if (branch)
+        this.validateValue(propertyPath, instancePath, value, branch, parent, branchState);
+      return branchState;
+    });
+    const result: Result = {
+      key: propertyPath,
+      value,
+      success: true,
+      error: '',
+      code: 'if',
+      params: {},
+      instancePath,
+      schemaPath: condition.if!.schemaPath
+    };
+
+    state.results.push(result);
+    this.addPendingResult(
+      result,
+      Promise.all(conditionState.pending).then(async () => {
+        const index = isMatch() ? 0 : 1;
+        const keyword = index === 0 ? 'then' : 'else';
+        await Promise.all(branchStates[index].pending!);
+
+        result.code = keyword;
+        result.schemaPath = branches[index]?.schemaPath ?? result.schemaPath;
+
+        const errors = this.getBranchErrors(branchStates[index]);
+        return (
+          errors.length === 0 ||
+          `Does not match the schema in ${keyword}: ${this.describeErrors(errors)}`
+        );
+      }),
+      state
+    );
+
+    return value;
+  }
+
+  /**
+   * @description Strips or disallows properties that lack a schema definition, or lets them
+   * pass through quietly. Disallowed properties below the root level also cause a warning.
+   */
+  private handleUnknownProperties(
+    definition: CompiledDefinition,
+    output: Record<string, any>,
+    state: ValidationState,
+    propertyPath: string,
+    instancePath: string
+  ) {
+    const { knownKeys, additionalProperties } = definition;
+    if (additionalProperties === 'passthrough') return;
+
+    const inputKeys = Object.keys(output);
+
+    if (additionalProperties === 'strip') this.stripUnknownProperties(inputKeys, knownKeys, output);
+    else {
+      this.checkForDisallowedProperties(
+        output,
+        knownKeys,
+        state.errors,
+        false,
+        definition,
+        propertyPath,
+        instancePath
+      );
+      if (!state.isBranch && instancePath)
+        this.warnForUnknownProperties(inputKeys, knownKeys, output);
+    }
+  }
+
+  /**
+   * @description Checks if the validation returns a converted copy of the input.
+   */
+  private hasOutput(state: ValidationState) {
+    return !!(state.coerce || state.useDefaults || state.strip);
+  }
+
+  /**
+   * @description Sets the default value of any missing properties that have one.
+   * Defaults are copied, so that the output never shares them with the schema.
+   */
+  private applyDefaults(definition: CompiledDefinition, output: Record<string, any>) {
+    for (const key of definition.propertyKeys) {
+      const defaultValue = definition.properties[key]?.default;
+
+      if (output[key] === undefined && defaultValue !== undefined)
+        output[key] = structuredClone(defaultValue);
+    }
+  }
+
+  /**
+   * @description Get the keys in a schema level that describe properties,
+   * i.e. everything that is not a reserved schema keyword.
+   */
+  private getPropertyKeys(schema: Record<string, any>) {
+    if (!schema) return [];
+    return Object.keys(schema).filter(
+      (key: string) =>
+        !schemaKeywords.includes(key) && !Object.prototype.hasOwnProperty.call(this.keywords, key)
+    );
+  }
+
+  /**
+   * @description Adds a key to a JSON Pointer (RFC 6901), escaping it as needed.
+   */
+  private getPointer(pointer: string, key: string | number) {
+    const segment = String(key);
+    if (!/[~/]/.test(segment)) return `${pointer}/${segment}`;
+
+    return `${pointer}/${segment.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+  }
+
+  /**
+   * @description Creates the full path to a key, used when outputting where any errors are found.
+   */
+  private getPropertyPath(propertyPath: string, key: string) {
+    return propertyPath ? `${propertyPath}.${key}` : key;
+  }
+
+  /**
+   * @description Checks if a value is actually defined as a non-null value.
+   */
+  private isDefined(value: unknown) {
+    if (typeof value === 'number' && value === 0) return true;
+    if (!!value || value === '' || typeof value === 'boolean') return true;
+    return false;
+  }
+
+  /**
+   * @description Checks if there are required keys and adds an error for each
+   * one that is missing or has no value, at the path of that key.
+   */
+  private checkForRequiredKeysErrors(
+    requiredKeys: readonly string[],
+    input: Record<string, any>,
+    errors: ValidationError[],
+    definition: CompiledDefinition,
+    propertyPath: string,
+    instancePath: string
+  ) {
+    for (const key of requiredKeys) {
+      const isPresent = !!input && Object.prototype.hasOwnProperty.call(input, key);
+      if (isPresent && this.isDefined(input[key])) continue;
+
+      errors.push(
+        this.createKeywordError(
+          definition,
+          'required',
+          this.getPropertyPath(propertyPath, key),
+          this.getPointer(instancePath, key),
+          input,
+          { missing: [key] },
+          isPresent
+            ? `Missing values for required keys: '${key}'!`
+            : `Missing the required key: '${key}'!`
+        )
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * @description Checks that the keys required by other keys, with `dependentRequired`,
+   * are present whenever those other keys are.
+   */
+  private checkForDependentRequiredErrors(
+    dependentRequired: Record<string, readonly string[]>,
+    input: Record<string, any>,
+    errors: ValidationError[],
+    definition: CompiledDefinition,
+    propertyPath: string,
+    instancePath: string
+  ) {
+    for (const key in dependentRequired) {
+      if (!this.isDefined(input[key])) continue;
+
+      const missingKeys = dependentRequired[key].filter(
+        (requiredKey: string) => !this.isDefined(input[requiredKey])
+      );
+
+      for (const missingKey of missingKeys)
+        errors.push(
+          this.createKeywordError(
+            definition,
+            'dependentRequired',
+            this.getPropertyPath(propertyPath, missingKey),
+            this.getPointer(instancePath, missingKey),
+            input,
+            { key, missing: [missingKey] },
+            `Missing the key required by '${key}': '${missingKey}'!`
+          )
+        );
+    }
+
+    return errors;
+  }
+
+  /**
+   * @description Checks if there are disallowed properties and adds an error
+   * for each of them, at the path of that property.
+   */
+  private checkForDisallowedProperties(
+    input: Record<string, any>,
+    propertyKeys: string[],
+    errors: ValidationError[],
+    isAdditionalsOk: boolean,
+    definition: CompiledDefinition,
+    propertyPath: string,
+    instancePath: string
+  ) {
+    if (isAdditionalsOk) return errors;
+
+    for (const key of this.findNonOverlappingElements(Object.keys(input), propertyKeys))
+      errors.push(
+        this.createKeywordError(
+          definition,
+          'additionalProperties',
+          this.getPropertyPath(propertyPath, key),
+          this.getPointer(instancePath, key),
+          input[key],
+          { properties: [key] },
+          `Has additional (disallowed) properties: '${key}'!`
+        )
+      );
+
+    return errors;
+  }
+
+  /**
+   * @description Removes any properties that lack a schema definition from the output.
+   */
+  private stripUnknownProperties(
+    inputKeys: string[],
+    propertyKeys: string[],
+    output: Record<string, any>
+  ) {
+    this.findNonOverlappingElements(inputKeys, propertyKeys).forEach(
+      (key: string) => delete output[key]
+    );
+  }
+
+  /**
+   * @description Emits a warning for any input properties that lack a schema definition.
+   */
+  private warnForUnknownProperties(
+    inputKeys: string[],
+    propertyKeys: string[],
+    input: Record<string, any>
+  ) {
+    if (this.isSilent) return;
+
+    this.findNonOverlappingElements(inputKeys, propertyKeys).forEach((key: string) =>
+      console.warn(`Missing property '${key}' for match '${input[key]}'. Skipping...`)
+    );
+  }
+
+  /**
+   * @description Validates a single property and then continues
+   * into its contents, if it is an array or an object.
+   *
+   * Returns the value, or a converted copy of it when coercing, using defaults or stripping.
+   */
+  private handleValidation(
+    propertyPath: string,
+    instancePath: string,
+    inputKey: ValidationValue,
+    definition: CompiledDefinition | undefined,
+    parent: Record<string, any> | ValidationValue[],
+    state: ValidationState
+  ): ValidationValue {
+    if (!definition) {
+      if (!this.isSilent)
+        console.warn(`Missing definition for property '${propertyPath}'. Skipping...`);
+      return inputKey;
+    }
+
+    const value = state.coerce ? this.coerce(definition.type, inputKey) : inputKey;
+    return this.validateValue(propertyPath, instancePath, value, definition, parent, state);
+  }
+
+  /**
+   * @description Validates a value against a definition, including its contents and
+   * any composition. Everything is reported on `propertyPath`, such as `orders[2]`
+   * for an array element, and on `instancePath`, the JSON Pointer to the value itself.
+   */
+  private validateValue(
+    propertyPath: string,
+    instancePath: string,
+    value: ValidationValue,
+    definition: CompiledDefinition,
+    parent: Record<string, any> | ValidationValue[],
+    state: ValidationState
+  ): ValidationValue {
+    const validation = this.validateProperty(
+      propertyPath,
+      definition,
+      value,
+      { key: propertyPath, instancePath, parent, root: state.root, signal: state.signal },
+      state
+    );
+    state.results.push(...validation);
+
+    if (this.hasMaxErrors(state)) return value;
+
+    const output = this.handleNestedValue(
+      propertyPath,
+      instancePath,
+      value,
+      definition,
+      parent,
+      state
+    );
+    const variant = this.handleDiscriminator(
+      propertyPath,
+      instancePath,
+      output,
+      definition,
+      parent,
+      state
+    );
+
+    return this.handleComposition(propertyPath, instancePath, variant, definition, parent, state);
+  }
+
   /**
-   * Toggle to silence (suppress) non-critical messages, such as warnings.
+   * @description Validates an object against the variant that its discriminator
+   * property selects. An unknown or missing discriminator value gives an error
+   * on the discriminator property.
    */
-  private readonly isSilent: boolean;
-
-  private propertyPath: string = '';
+  private handleDiscriminator(
+    propertyPath: string,
+    instancePath: string,
+    value: ValidationValue,
+    definition: CompiledDefinition,
+    parent: Record<string, any> | ValidationValue[],
+    state: ValidationState
+  ): ValidationValue {
+    const { discriminator } = definition;
+    if (!discriminator || !this.isObject(value)) return value;
+
+    const { propertyName, mapping } = discriminator;
+    const tag = (value as Record<string, any>)[propertyName];
+
+    if (typeof tag === 'string' && Object.prototype.hasOwnProperty.call(mapping, tag))
+      return this.validateValue(propertyPath, instancePath, value, mapping[tag], parent, state);
+
+    const tags = Object.keys(mapping);
+    const allowed = tags.map((allowedTag: string) => JSON.stringify(allowedTag)).join(', ');
+
+    state.results.push(
+      this.createKeywordError(
+        definition,
+        'discriminator',
+        this.getPropertyPath(propertyPath, propertyName),
+        this.getPointer(instancePath, propertyName),
+        tag,
+        { propertyName, allowed: tags },
+        tag === undefined
+          ? `Missing the discriminator property: '${propertyName}'! Allowed values: ${allowed}`
+          : `Unknown value for the discriminator property '${propertyName}': ${JSON.stringify(tag)}! Allowed values: ${allowed}`
+      )
+    );
 
-  constructor(isSilent = false) {
-    this.isSilent = isSilent;
+    return value;
   }
 
   /**
-   * @description MikroValid is a lightweight validator
-   * that works both on the client and server.
-   *
-   * Provide a JSON object schema and your input and MikroValid
-   * takes care of the rest.
-   *
-   * @example
-   * import { MikroValid } from 'mikrovalid';
-   *
-   * const mikrovalid = new MikroValid();
-   *
-   * const schema = {
-   *   properties: {
-   *     personal: {
-   *       name: { type: 'string' },
-   *       required: ['name']
-   *     },
-   *     work: {
-   *       office: { type: 'string' },
-   *       currency: { type: 'string' },
-   *       salary: { type: 'number' },
-   *       required: ['office']
-   *     },
-   *     required: ['personal', 'work']
-   *   }
-   * };
-   *
-   * const input = {
-   *   personal: {
-   *     name: 'Sam Person'
-   *   },
-   *   work: {
-   *     office: 'London',
-   *     currency: 'GBP',
-   *     salary: 10000
-   *   }
-   * };
-   *
-   * const { success, errors } = mikrovalid.test(schema, input);
+   * @description Validates a value against the branches of any composition keywords.
    *
-   * console.log('Was the test successful?', success);
+   * Each branch is validated separately, so that its errors can explain why it failed.
+   * The returned value is the output of all `allOf` branches, and of the
+   * first matching `anyOf` and `oneOf` branch.
    */
-  public test<Schema extends { properties: any }>(
-    schema: Schema & RootDefinition<Schema>,
-    input: Record<string, any>
-  ) {
-    if (!input) throw new Error('Missing input!');
+  private handleComposition(
+    propertyPath: string,
+    instancePath: string,
+    value: ValidationValue,
+    definition: CompiledDefinition,
+    parent: Record<string, any> | ValidationValue[],
+    state: ValidationState
+  ): ValidationValue {
+    let output = value;
+
+    for (const { keyword, branches } of definition.composition) {
+      const branchStates = branches.map(() => this.createBranchState(state));
+      const outputs = branches.map((branch: CompiledDefinition, index: number) => {
+        const branchValue = state.coerce ? this.coerce(branch.type, output) : output;
+        const branchOutput = this.validateValue(
+          propertyPath,
+          instancePath,
+          branchValue,
+          branch,
+          parent,
+          branchStates[index]
+        );
+
+        if (keyword === 'allOf') output = branchOutput;
+        return branchOutput;
+      });
 
-    this.updatePropertyPath();
+      const match = branchStates.findIndex(
+        (branchState: ValidationState) => this.getBranchErrors(branchState).length === 0
+      );
+      if ((keyword === 'anyOf' || keyword === 'oneOf') && match !== -1) output = outputs[match];
 
-    const { results, errors } = this.validate(schema.properties, input);
-    const aggregatedErrors = this.compileErrors(results, errors);
-    const success = this.isSuccessful(results, aggregatedErrors);
+      this.addCompositionResult(
+        propertyPath,
+        instancePath,
+        value,
+        keyword,
+        branchStates,
+        definition,
+        state
+      );
+    }
 
-    return {
-      errors: aggregatedErrors,
-      success
-    };
+    return output;
   }
 
   /**
-   * @description Aggregate errors into a flat array.
+   * @description Creates the state for validating a composition branch,
+   * which keeps its results apart from the rest of the validation.
    */
-  private compileErrors(results: Result[], errors: ValidationError[]): ValidationError[] {
-    const resultErrors = results.filter((result: Result) => result.success === false);
-    return [...errors, ...resultErrors].flatMap((error: Result) => error);
+  private createBranchState(state: ValidationState): ValidationState {
+    return {
+      ...state,
+      results: [],
+      errors: [],
+      pending: state.pending && [],
+      isBranch: true
+    };
   }
 
   /**
-   * @description Check if this was, ultimately, a successful and valid test run.
+   * @description Gets the errors from validating a composition branch.
    */
-  private isSuccessful(results: Result[], errors: ValidationError[]) {
-    return (
-      results.every((result: Record<string, any>) => result.success === true) && errors.length === 0
-    );
+  private getBranchErrors(branchState: ValidationState) {
+    return this.compileErrors(branchState.results, branchState.errors);
   }
 
   /**
-   * @description This is the main recursive loop that checks
-   * all fields/properties and any nested objects.
+   * @description Adds the result of a composition keyword, once any
+   * asynchronous validations in its branches have settled.
    */
-  private validate<Schema extends Record<string, any>>(
-    schema: FirstLevelDefinition<Schema>,
-    input: Record<string, any>,
-    results: Result[] = [],
-    errors: ValidationError[] = []
+  private addCompositionResult(
+    key: string,
+    instancePath: string,
+    value: ValidationValue,
+    keyword: CompositionKeyword,
+    branchStates: ValidationState[],
+    definition: CompiledDefinition,
+    state: ValidationState
   ) {
-    const isAdditionalsOk = schema?.additionalProperties ?? true;
-    const requiredKeys: string[] = schema?.required || [];
-
-    errors = this.checkForRequiredKeysErrors(requiredKeys, input, errors);
-    errors = this.checkForDisallowedProperties(
-      Object.keys(input),
-      Object.keys(schema),
-      errors,
-      isAdditionalsOk
-    );
-
-    for (const key in schema) {
-      const isKeyRequired = requiredKeys.includes(key) && key !== 'required';
-      const propertyKey = schema[key];
-      const inputKey: ValidationValue = input[key];
-      const isInnerAdditionalsOk = propertyKey.additionalProperties ?? true;
-
-      if (isKeyRequired) {
-        errors = this.checkForRequiredKeysErrors(
-          propertyKey.required || [],
-          inputKey as Record<string, any>,
-          errors
-        );
-      }
-
-      if (this.isDefined(inputKey)) {
-        this.handleValidation(key, inputKey, propertyKey, results);
+    const getOutcome = () => {
+      const outcome = this.compositionRules[keyword](
+        branchStates.map((branchState: ValidationState) => this.getBranchErrors(branchState))
+      );
+
+      return (
+        this.isValidOutcome(outcome) ||
+        this.getKeywordError(definition.errorMessage, keyword, { value }, outcome as string)
+      );
+    };
+    const pending = branchStates.flatMap((branchState: ValidationState) => branchState.pending!);
+    const result = this.createKeywordError(definition, keyword, key, instancePath, value, {}, '');
 
-        errors = this.checkForDisallowedProperties(
-          Object.keys(inputKey),
-          Object.keys(propertyKey),
-          errors,
-          isInnerAdditionalsOk
-        );
+    if (state.pending && pending.length > 0) {
+      const pendingResult = { ...result, success: true };
 
-        this.handleNestedObject(inputKey as Record<string, any>, propertyKey, results, errors);
-      }
+      state.results.push(pendingResult);
+      this.addPendingResult(pendingResult, Promise.all(pending).then(getOutcome), state);
+      return;
     }
 
-    return { results, errors };
+    const outcome = getOutcome();
+    if (!this.isValidOutcome(outcome))
+      state.results.push({ ...result, error: this.getOutcomeError(outcome, '') });
   }
 
   /**
-   * @description Updates the internal `propertyPath` value. This is used
-   * when outputting the full path to the key where any errors are found.
+   * @description Describes why the branches of a composition failed, for use in an error message.
    */
-  private updatePropertyPath(key?: string, startValue = '') {
-    if (!key) {
-      this.propertyPath = '';
-      return;
-    }
+  private describeBranches(branchErrors: ValidationError[][]) {
+    return branchErrors
+      .map((errors: ValidationError[], index: number) =>
+        errors.length > 0 ? `(${index + 1}) ${this.describeErrors(errors)}` : ''
+      )
+      .filter(Boolean)
+      .join('; ');
+  }
 
-    if (startValue) this.propertyPath = startValue;
+  /**
+   * @description Describes errors for use in another error message, such as `name: Invalid type`.
+   */
+  private describeErrors(errors: ValidationError[]) {
+    return errors.map(({ key, error }) => (key ? `${key}: ${error}` : error)).join(', ');
+  }
+
+  /**
+   * @description Validates nested input, such as an object or an array.
+   *
+   * Input that contains itself, such as a comment that is its own reply, is
+   * not validated again against the same definition while it is already being
+   * validated against it, so that recursive schemas always finish.
+   */
+  private handleNestedValue(
+    propertyPath: string,
+    instancePath: string,
+    inputKey: ValidationValue,
+    definition: CompiledDefinition,
+    parent: Record<string, any> | ValidationValue[],
+    state: ValidationState
+  ): ValidationValue {
+    if (!this.isArray(inputKey) && !this.isObject(inputKey)) return inputKey;
+
+    const nested = inputKey as object;
+    const definitions = state.visiting.get(nested) || new Set<CompiledDefinition>();
+    if (definitions.has(definition)) return inputKey;
+
+    state.visiting.set(nested, definitions.add(definition));
+    const output = this.validateNestedValue(
+      propertyPath,
+      instancePath,
+      inputKey,
+      definition,
+      parent,
+      state
+    );
+    definitions.delete(definition);
 
-    this.propertyPath = `${this.propertyPath}.${key}`;
+    return output;
+  }
 
-    if (this.propertyPath.startsWith('.'))
-      this.propertyPath = this.propertyPath.substring(1, this.propertyPath.length);
+  /**
+   * @description Runs nested validation in the right way, based on
+   * whether the input is an array or an object.
+   */
+  private validateNestedValue(
+    propertyPath: string,
+    instancePath: string,
+    inputKey: ValidationValue,
+    definition: CompiledDefinition,
+    parent: Record<string, any> | ValidationValue[],
+    state: ValidationState
+  ): ValidationValue {
+    if (this.isArray(inputKey) && this.hasItemDefinitions(definition))
+      return this.handleArray(
+        propertyPath,
+        instancePath,
+        inputKey as ValidationValue[],
+        definition,
+        state
+      );
+    if (this.isObject(inputKey))
+      return this.validate(
+        definition,
+        inputKey as Record<string, any>,
+        state,
+        propertyPath,
+        instancePath,
+        parent
+      );
+    return inputKey;
   }
 
   /**
-   * @description Checks if a value is actually defined as a non-null value.
+   * @description Checks if a definition describes the elements of an array.
    */
-  private isDefined(value: unknown) {
-    if (typeof value === 'number' && value === 0) return true;
-    if (!!value || value === '' || typeof value === 'boolean') return true;
-    return false;
+  private hasItemDefinitions({
+    items,
+    prefixItems,
+    additionalItems,
+    contains
+  }: CompiledDefinition) {
+    return !!items || prefixItems.length > 0 || !additionalItems || !!contains;
   }
 
   /**
-   * @description Checks if there are required keys and adds errors if needed.
+   * @description Validates every element of an array against the schema for its
+   * position in `prefixItems`, or else against the `items` schema.
+   *
+   * Each element is reported at its index, e.g. `orders[2]`, as is anything
+   * nested inside it, e.g. `orders[2].qty`. The instance path also has the
+   * index, e.g. `/orders/2`.
+   *
+   * Once the validation has found as many errors as it may, the rest of the
+   * elements are kept as they are.
    */
-  private checkForRequiredKeysErrors(
-    schema: string[],
-    input: Record<string, any>,
-    errors: ValidationError[]
-  ) {
-    if (!this.areRequiredKeysPresent(schema, input)) {
-      const inputKeys = input ? Object.keys(input) : [];
-      const missingKeys = this.findNonOverlappingElements(schema, inputKeys);
-
-      const message =
-        missingKeys.length > 0
-          ? `Missing the required key: '${missingKeys.join(', ')}'!`
-          : `Missing values for required keys: '${inputKeys.filter((key) => !input[key]).join(', ')}'!`;
-
-      errors.push({
-        key: '',
-        value: input,
-        success: false,
-        error: message
-      });
+  private handleArray(
+    propertyPath: string,
+    instancePath: string,
+    inputKey: ValidationValue[],
+    definition: CompiledDefinition,
+    state: ValidationState
+  ): ValidationValue {
+    const input = state.useDefaults ? this.applyItemDefaults(definition, inputKey) : inputKey;
+    const output: ValidationValue[] = [];
+
+    this.checkForItemCountErrors(definition, input, state.errors, propertyPath, instancePath);
+
+    for (const [index, arrayItem] of input.entries()) {
+      if (this.hasMaxErrors(state)) return [...output, ...input.slice(index)] as ValidationValue;
+
+      const items = this.getItemDefinition(definition, index);
+      const value = state.coerce && items ? this.coerce(items.type, arrayItem) : arrayItem;
+      const itemPath = `${propertyPath}[${index}]`;
+
+      output.push(
+        items
+          ? this.validateValue(
+              itemPath,
+              this.getPointer(instancePath, index),
+              value,
+              items,
+              inputKey,
+              state
+            )
+          : value
+      );
     }
 
-    return errors;
+    this.handleContains(propertyPath, instancePath, input, definition, state);
+
+    return output as ValidationValue;
   }
 
   /**
-   * @description Checks if there are disallowed properties and adds errors if needed.
+   * @description Counts the elements of an array that match the `contains` schema, and checks
+   * that there are at least `minContains` (by default 1) and at most `maxContains` of them.
+   *
+   * Each element is validated separately, like a composition branch, and only
+   * counted once any asynchronous validations have settled.
    */
-  private checkForDisallowedProperties(
-    inputKeys: string[],
-    propertyKeys: string[],
-    errors: ValidationError[],
-    isAdditionalsOk: boolean
+  private handleContains(
+    propertyPath: string,
+    instancePath: string,
+    input: ValidationValue[],
+    definition: CompiledDefinition,
+    state: ValidationState
   ) {
-    if (!isAdditionalsOk) {
-      const additionals = this.findNonOverlappingElements(inputKeys, propertyKeys);
-      if (additionals.length > 0)
-        errors.push({
-          key: `${propertyKeys}`,
-          value: inputKeys,
-          success: false,
-          error: `Has additional (disallowed) properties: '${additionals.join(', ')}'!`
-        });
+    const { contains, minContains, maxContains } = definition;
+    if (!contains || this.hasMaxErrors(state)) return;
+
+    const branchStates = input.map((item: ValidationValue, index: number) => {
+      const branchState = this.createBranchState(state);
+      const itemPath = `${propertyPath}[${index}]`;
+      this.validateValue(
+        itemPath,
+        this.getPointer(instancePath, index),
+        item,
+        contains,
+        input,
+        branchState
+      );
+      return branchState;
+    });
+    const getError = () => {
+      const count = branchStates.filter(
+        (branchState: ValidationState) => this.getBranchErrors(branchState).length === 0
+      ).length;
+
+      if (count < minContains)
+        return this.createKeywordError(
+          definition,
+          'contains',
+          propertyPath,
+          instancePath,
+          input,
+          { min: minContains, actual: count },
+          `Too few items match the schema in contains: expected at least ${minContains} but got ${count}!`
+        );
+      if (maxContains !== undefined && count > maxContains)
+        return this.createKeywordError(
+          definition,
+          'maxContains',
+          propertyPath,
+          instancePath,
+          input,
+          { max: maxContains, actual: count },
+          `Too many items match the schema in contains: expected at most ${maxContains} but got ${count}!`
+        );
+    };
+    const pending = branchStates.flatMap((branchState: ValidationState) => branchState.pending!);
+
+    if (state.pending && pending.length > 0) {
+      const result: Result = {
+        ...this.createKeywordError(
+          definition,
+          'contains',
+          propertyPath,
+          instancePath,
+          input,
+          { min: minContains },
+          ''
+        ),
+        success: true
+      };
+
+      state.results.push(result);
+      this.addPendingResult(
+        result,
+        Promise.all(pending).then(() => {
+          const error = getError();
+          if (!error) return true;
+
+          Object.assign(result, error);
+          return error.error;
+        }),
+        state
+      );
+      return;
     }
 
-    return errors;
+    const error = getError();
+    if (error) state.results.push(error);
   }
 
   /**
-   * @description Runs validation in the right way, based on whether the
-   * input is an object or not.
+   * @description Gets the definition for the element at a position of an array, if any.
    */
-  private handleValidation<Schema extends Record<string, any>>(
-    key: string,
-    inputKey: ValidationValue,
-    propertyKey: SchemaDefinition<Schema>,
-    results: Result[]
+  private getItemDefinition(
+    { items, prefixItems, additionalItems }: CompiledDefinition,
+    index: number
   ) {
-    this.updatePropertyPath(key);
+    if (index < prefixItems.length) return prefixItems[index];
+    return additionalItems ? items : undefined;
+  }
 
-    const validation = this.validateProperty(this.propertyPath, propertyKey, inputKey);
-    results.push(...validation);
+  /**
+   * @description Sets the default value of any missing elements that have one.
+   * Missing positions at the end of a tuple are added while they have defaults.
+   */
+  private applyItemDefaults(definition: CompiledDefinition, input: ValidationValue[]) {
+    const { prefixItems } = definition;
+    const output = input.map((item: ValidationValue, index: number) => {
+      const defaultValue = this.getItemDefinition(definition, index)?.default;
+      return item === undefined && defaultValue !== undefined
+        ? (structuredClone(defaultValue) as ValidationValue)
+        : item;
+    });
 
-    const handleArray = (inputKey: ValidationValue, propertyKey: SchemaDefinition<Schema>) => {
-      // @ts-ignore - inputKey is an array
-      inputKey.forEach((arrayItem: ValidationValue) => {
-        const validation = this.validateProperty(this.propertyPath, propertyKey.items!, arrayItem);
-        results.push(...validation);
-      });
+    while (prefixItems[output.length]?.default !== undefined)
+      output.push(structuredClone(prefixItems[output.length].default) as ValidationValue);
 
-      this.updatePropertyPath();
-    };
+    return output;
+  }
 
-    const handleObject = (inputKey: any) => {
-      const keys = Object.keys(inputKey);
-      const currentPath = this.propertyPath;
-
-      keys.forEach((innerKey: string) => {
-        this.updatePropertyPath(innerKey, currentPath);
-
-        if (this.isArray(inputKey[innerKey]) && propertyKey[innerKey]?.items != null)
-          // @ts-ignore
-          handleArray(inputKey[innerKey], propertyKey[innerKey]);
-        else {
-          const validation = this.validateProperty(
-            this.propertyPath,
-            propertyKey[innerKey],
-            // @ts-ignore - innerKey will be an object
-            inputKey[innerKey]
-          );
-
-          results.push(...validation);
-        }
-      });
-    };
+  /**
+   * @description Checks that an array has an element for every position in
+   * `prefixItems`, and no more than those when `additionalItems` is `false`.
+   */
+  private checkForItemCountErrors(
+    definition: CompiledDefinition,
+    input: ValidationValue[],
+    errors: ValidationError[],
+    propertyPath: string,
+    instancePath: string
+  ) {
+    const { length } = input;
+    const count = definition.prefixItems.length;
+
+    if (length < count)
+      errors.push(
+        this.createKeywordError(
+          definition,
+          'prefixItems',
+          propertyPath,
+          instancePath,
+          input,
+          { min: count, actual: length },
+          `Missing items: expected ${count} but got ${length}!`
+        )
+      );
+
+    if (!definition.additionalItems && length > count)
+      errors.push(
+        this.createKeywordError(
+          definition,
+          'additionalItems',
+          propertyPath,
+          instancePath,
+          input,
+          { max: count, actual: length },
+          `Has additional (disallowed) items: expected at most ${count} but got ${length}!`
+        )
+      );
 
-    if (this.isArray(inputKey) && propertyKey.items != null) handleArray(inputKey, propertyKey);
-    else if (this.isObject(inputKey)) handleObject(inputKey);
-    else this.updatePropertyPath();
+    return errors;
   }
 
   /**
-   * @description Check for nested objects and handle them.
-   * @note Currently, this skips checking array contents.
+   * @description Gets the function that selects what to compare of each element
+   * of an array that must have unique elements.
    */
-  private handleNestedObject(
-    inputKey: Record<string, any>,
-    propertyKey: Record<string, any>,
-    results: Result[],
-    errors: ValidationError[]
-  ) {
-    if (this.isObject(inputKey)) {
-      const nestedObjects = this.getNestedObjects(inputKey);
-
-      for (const nested of nestedObjects) {
-        const nextSchema = propertyKey[nested];
-        const nextInput = inputKey[nested];
-        if (nextSchema && typeof nextInput === 'object')
-          this.validate(nextSchema, nextInput, results, errors);
-      }
-    }
+  private getItemSelector(uniqueItems: UniqueItems): (item: unknown) => unknown {
+    if (typeof uniqueItems === 'function') return uniqueItems;
+    if (typeof uniqueItems === 'string')
+      return (item: unknown) =>
+        this.isObject(item) ? (item as Record<string, unknown>)[uniqueItems] : item;
+
+    return (item: unknown) => item;
   }
 
   /**
-   * @description Get the name of all objects with nesting from a parent object.
+   * @description Checks that no two elements of an array are deeply equal,
+   * or have deeply equal selected values.
    */
-  private getNestedObjects(item: ValidationValue) {
-    return Object.keys(item).filter((key: string) => {
-      if (this.isObject(item as string)) return key;
-    });
+  private hasUniqueItems(select: (item: unknown) => unknown, input: ValidationValue) {
+    if (!Array.isArray(input)) return true;
+
+    const primitives = new Set<unknown>();
+    const objects: unknown[] = [];
+
+    for (const item of input) {
+      const value = select(item);
+      const isObject = typeof value === 'object' && value !== null;
+      const seen = isObject
+        ? objects.some((other: unknown) => this.isDeepEqual(other, value))
+        : primitives.has(value);
+
+      if (seen) return false;
+      if (isObject) objects.push(value);
+      else primitives.add(value);
+    }
+
+    return true;
   }
 
   /**
-   * @description Return a list of all unique, non-overlapping elements from an array.
+   * @description Converts a value to the first of the expected types that it can
+   * be converted to, unless it already has one of them.
    */
-  private findNonOverlappingElements(target: string[], truth: string[]) {
-    return target.filter((value: string) => !truth.includes(value));
+  private coerce(expected: ValidationTypes | undefined, value: ValidationValue) {
+    if (!expected || this.isCorrectType(expected, value)) return value;
+
+    const types = typeof expected === 'string' ? [expected] : expected;
+
+    for (const type of types) {
+      if (!Object.prototype.hasOwnProperty.call(this.coercers, type)) continue;
+
+      const coerced = this.coercers[type](value);
+      if (coerced !== undefined) return coerced;
+    }
+
+    return value;
   }
 
   /**
-   * @description Checks if all required keys are present in the input object and that they have a defined value.
+   * @description Return a list of all unique, non-overlapping elements from an array.
    */
-  private areRequiredKeysPresent(requiredKeys: string[], input: Record<string, any> = []) {
-    return requiredKeys.every((key) => {
-      if (Object.keys(input).includes(key)) return this.isDefined(input[key]);
-      return false;
-    });
+  private findNonOverlappingElements(target: readonly string[], truth: readonly string[]) {
+    return target.filter((value: string) => !truth.includes(value));
   }
 
   /**
    * @description Controller for validation purposes. Returns back a more comprehensive validation object.
    */
-  private validateProperty<Schema>(
+  private validateProperty(
     key: string,
-    properties: SchemaDefinition<Schema>,
-    value: ValidationValue
+    definition: CompiledDefinition,
+    value: ValidationValue,
+    context: ValidationContext,
+    state: ValidationState
   ): Result[] {
-    //const { success, error } = this.validateInput(properties, value);
-    const results = this.validateInput(properties, value);
+    const results = this.validateInput(definition.checks, value, context);
 
-    return results.map((result: ValidationResult) => {
-      const { success, error } = result;
+    return results.map((validationResult: ValidationResult) => {
+      const { success, error, pending, check } = validationResult;
 
-      return {
+      const result = {
         key,
         value,
         success,
-        error: error ?? ''
+        error: error ?? '',
+        code: check.keyword,
+        params: success ? check.params : this.getCheckParams(check, value),
+        instancePath: context.instancePath,
+        schemaPath: check.schemaPath
       };
+
+      if (pending) this.addPendingResult(result, pending, state);
+
+      return result;
     });
   }
 
   /**
-   * @description Performs field-level validation.
+   * @description Gets the parameters of a check for a value, including
+   * what the value actually has, such as its length, if the check says.
    */
-  private validateInput<Schema extends Record<string, any>>(
-    properties: SchemaDefinition<Schema>,
-    match: ValidationValue
-  ): ValidationResult[] {
-    if (properties) {
-      const checks = [
-        {
-          condition: () => properties['type'],
-          validator: () => this.isCorrectType(properties['type']!, match),
-          error: 'Invalid type'
-        },
-        {
-          condition: () => properties['format'],
-          validator: () => this.isCorrectFormat(properties['format']!, match as string),
-          error: 'Invalid format'
-        },
-        {
-          condition: () => properties['minLength'],
-          validator: () => this.isMinimumLength(properties['minLength']!, match),
-          error: 'Length too short'
-        },
-        {
-          condition: () => properties['maxLength'],
-          validator: () => this.isMaximumLength(properties['maxLength']!, match),
-          error: 'Length too long'
-        },
-        {
-          condition: () => properties['minValue'],
-          validator: () => this.isMinimumValue(properties['minValue']!, match as number),
-          error: 'Value too small'
-        },
-        {
-          condition: () => properties['maxValue'],
-          validator: () => this.isMaximumValue(properties['maxValue']!, match as number),
-          error: 'Value too large'
-        },
-        {
-          condition: () => properties['matchesPattern'],
-          validator: () => this.matchesPattern(properties['matchesPattern']!, match as string),
-          error: 'Pattern does not match'
-        }
-      ];
+  private getCheckParams(check: CheckRule, value: ValidationValue) {
+    if (!check.actual) return check.params;
+    return { ...check.params, actual: check.actual(value) };
+  }
 
-      const results: any = [];
+  /**
+   * @description Keeps track of an asynchronous validation, so that its
+   * result can be updated when it has settled. Only `testAsync()` supports this.
+   */
+  private addPendingResult(
+    result: Result,
+    pending: Promise<ValidationOutcome>,
+    state: ValidationState
+  ) {
+    if (!state.pending) {
+      // The validator has already run, so make sure that a rejection isn't left unhandled
+      pending.catch(() => undefined);
+      throw new Error('Asynchronous validators are only supported when using testAsync()!');
+    }
 
-      for (const check of checks) {
-        if (check.condition() && !check.validator())
-          results.push({ success: false, error: check.error });
-      }
+    state.pending.push(
+      pending.then((outcome: ValidationOutcome) => {
+        result.success = this.isValidOutcome(outcome);
+        result.error = result.success ? '' : this.getOutcomeError(outcome, result.error);
+      })
+    );
+  }
 
-      return results;
-    } else {
-      if (!this.isSilent)
-        console.warn(`Missing property '${properties}' for match '${match}'. Skipping...`);
+  /**
+   * @description Waits for all asynchronous validations, which run concurrently,
+   * unless the signal is aborted first.
+   */
+  private async settlePendingResults(pending: Promise<void>[], signal: AbortSignal) {
+    const aborted = new Promise<never>((_, reject) =>
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true })
+    );
+
+    await Promise.race([Promise.all(pending), aborted]);
+  }
+
+  /**
+   * @description Checks if the outcome of a validator means that the value is valid.
+   * A string is treated as an error message.
+   */
+  private isValidOutcome(outcome: ValidationOutcome) {
+    return !!outcome && typeof outcome !== 'string';
+  }
+
+  /**
+   * @description Gets the error message for an invalid outcome.
+   */
+  private getOutcomeError(outcome: ValidationOutcome, error: string) {
+    return typeof outcome === 'string' && outcome ? outcome : error;
+  }
+
+  /**
+   * @description Performs field-level validation.
+   */
+  private validateInput(
+    checks: ValidationCheck[],
+    match: ValidationValue,
+    context: ValidationContext
+  ): ValidationResult[] {
+    const results: ValidationResult[] = [];
+
+    for (const check of checks) {
+      const { message } = check;
+      const outcome = check.validator(match, context);
+      const error =
+        message === undefined
+          ? check.error
+          : this.interpolate(message, { ...this.getCheckParams(check, match), value: match });
+
+      if (outcome instanceof Promise)
+        results.push({
+          success: true,
+          error,
+          check,
+          pending:
+            message === undefined
+              ? outcome
+              : outcome.then((settled: ValidationOutcome) => this.isValidOutcome(settled))
+        });
+      else if (!this.isValidOutcome(outcome))
+        results.push({
+          success: false,
+          error: message === undefined ? this.getOutcomeError(outcome, error) : error,
+          check
+        });
     }
 
-    return [{ success: true }];
+    return results;
   }
 
   /**
    * @description Checks whether or not a type is correct.
    */
   private isCorrectType(expected: ValidationTypes, input: ValidationValue) {
-    if (!Array.isArray(expected)) expected = [expected];
+    const types = typeof expected === 'string' ? [expected] : expected;
 
-    return expected.some((type) => {
+    return types.some((type) => {
       switch (type) {
         case 'string':
           return typeof input === 'string';
         case 'number':
-          return typeof input === 'number' && !isNaN(input);
+          return Number.isFinite(input);
+        case 'integer':
+          return Number.isInteger(input);
         case 'boolean':
           return typeof input === 'boolean';
         case 'object':
@@ -461,37 +2262,65 @@ export class MikroValid {
   }
 
   /**
-   * @description Checks if the input string matches a particular format.
-   *
-   * Valid formats are:
-   * - `alphanumeric`
-   * - `date`
-   * - `email`
-   * - `hexColor`
-   * - `numeric`
-   * - `url`
+   * @description Checks if the input string matches a particular format rule,
+   * either a built-in one or one added with `registerFormat()`.
    */
-  private isCorrectFormat(expected: ValidationFormat, input: string) {
-    switch (expected) {
-      case 'alphanumeric': {
-        return new RegExp(/^[a-zA-Z0-9]+$/).test(input);
-      }
-      case 'numeric': {
-        return new RegExp(/^-?\d+(\.\d+)?$/).test(input);
-      }
-      case 'email': {
-        return new RegExp(/^[a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,4}$/).test(input);
-      }
-      case 'date': {
-        return new RegExp(/^\d{4}-\d{2}-\d{2}$/).test(input);
-      }
-      case 'url': {
-        return new RegExp(/^(https?):\/\/[^\s$.?#].[^\s]*$/).test(input);
-      }
-      case 'hexColor': {
-        return new RegExp(/^#?([a-f0-9]{6}|[a-f0-9]{3})$/i).test(input);
-      }
-    }
+  private isCorrectFormat(rule: ValidationFormatRule | undefined, input: string) {
+    if (!rule) return false;
+    if (typeof rule === 'function') return rule(input);
+    return this.matchesPattern(rule, input);
+  }
+
+  /**
+   * @description Checks if a value is an IPv6 address. Groups of zeros may be
+   * compressed with `::`, and the address may end with an IPv4 address, as in
+   * the IPv4-mapped address `::ffff:192.0.2.1`.
+   */
+  private isIPv6(value: string) {
+    if (typeof value !== 'string' || !value.includes(':')) return false;
+
+    const ipv4Start = value.lastIndexOf(':') + 1;
+    const hasIPv4 = this.isCorrectFormat(this.formats.ipv4, value.slice(ipv4Start));
+
+    // An IPv4 address takes up the last two groups; anything else with a dot is not a valid group
+    const address = hasIPv4 ? `${value.slice(0, ipv4Start)}0:0` : value;
+    const halves = address.split('::');
+    const groups = halves.flatMap((half: string) => (half ? half.split(':') : []));
+    const hasValidGroups = groups.every((group: string) => /^[0-9a-f]{1,4}$/i.test(group));
+
+    if (halves.length === 1) return hasValidGroups && groups.length === 8;
+    return hasValidGroups && halves.length === 2 && groups.length < 8;
+  }
+
+  /**
+   * @description Checks if a value is an IPv4 or IPv6 address range in CIDR notation,
+   * such as `192.168.0.0/16` or `2001:db8::/32`.
+   */
+  private isCidr(value: string) {
+    if (typeof value !== 'string') return false;
+
+    const [address, prefix, ...rest] = value.split('/');
+    if (rest.length > 0 || !/^(0|[1-9]\d{0,2})$/.test(prefix ?? '')) return false;
+
+    if (this.isCorrectFormat(this.formats.ipv4, address)) return Number(prefix) <= 32;
+    return this.isIPv6(address) && Number(prefix) <= 128;
+  }
+
+  /**
+   * @description Gets the length of an input. Works for both arrays and strings.
+   */
+  private getLength(input: ValidationValue) {
+    if (Array.isArray(input)) return input.length;
+    return input?.toString().length;
+  }
+
+  /**
+   * @description Gets the name of the type of a value, as used by the `type` keyword.
+   */
+  private getTypeName(input: ValidationValue) {
+    if (input === null) return 'null';
+    if (Array.isArray(input)) return 'array';
+    return typeof input;
   }
 
   /**
@@ -524,11 +2353,77 @@ export class MikroValid {
     return input <= minValue;
   }
 
+  /**
+   * @description Checks if a number is a multiple of another. Both are scaled to
+   * integers by their number of decimals first, so that floating-point errors
+   * don't matter, e.g. `0.3` is a multiple of `0.1`.
+   */
+  private isMultipleOf(multipleOf: number, input: number) {
+    if (typeof input !== 'number') return false;
+
+    const factor = 10 ** Math.max(this.countDecimals(multipleOf), this.countDecimals(input));
+    const [scaledInput, scaledMultiple] = [
+      Math.round(input * factor),
+      Math.round(multipleOf * factor)
+    ];
+
+    if (Number.isSafeInteger(scaledInput) && Number.isSafeInteger(scaledMultiple))
+      return scaledInput % scaledMultiple === 0;
+
+    const quotient = input / multipleOf;
+    return Math.abs(quotient - Math.round(quotient)) <= Number.EPSILON * Math.abs(quotient);
+  }
+
+  /**
+   * @description Counts the decimals of a number, including those in exponential notation, e.g. `1e-7`.
+   */
+  private countDecimals(value: number) {
+    const [digits, exponent = '0'] = value.toString().split('e');
+    return Math.max((digits.split('.')[1] || '').length - Number(exponent), 0);
+  }
+
   /**
    * @description Checks whether a string matches against a user-provided regular expression.
    */
   private matchesPattern(pattern: RegExp, input: string) {
-    return new RegExp(pattern).test(input);
+    pattern.lastIndex = 0;
+    return pattern.test(input);
+  }
+
+  /**
+   * @description Checks if two values are equal, comparing arrays and objects by their contents.
+   */
+  private isDeepEqual(expected: unknown, input: unknown): boolean {
+    if (expected === input) return true;
+
+    if (this.isArray(expected) && this.isArray(input)) {
+      const [expectedItems, inputItems] = [expected as unknown[], input as unknown[]];
+      return (
+        expectedItems.length === inputItems.length &&
+        expectedItems.every((item: unknown, index: number) =>
+          this.isDeepEqual(item, inputItems[index])
+        )
+      );
+    }
+
+    if (this.isObject(expected) && this.isObject(input)) {
+      const [expectedObject, inputObject] = [
+        expected as Record<string, unknown>,
+        input as Record<string, unknown>
+      ];
+      const keys = Object.keys(expectedObject);
+
+      return (
+        keys.length === Object.keys(inputObject).length &&
+        keys.every(
+          (key: string) =>
+            Object.prototype.hasOwnProperty.call(inputObject, key) &&
+            this.isDeepEqual(expectedObject[key], inputObject[key])
+        )
+      );
+    }
+
+    return false;
   }
 
   /**
@@ -0,0 +1,41 @@
+/**
+ * @description Keywords that have a meaning in a schema
+ * and therefore are not treated as property names.
+ */
+export const schemaKeywords: string[] = [
+  'type',
+  'default',
+  'format',
+  'items',
+  'prefixItems',
+  'additionalItems',
+  'uniqueItems',
+  'contains',
+  'minContains',
+  'maxContains',
+  'minLength',
+  'maxLength',
+  'minValue',
+  'maxValue',
+  'exclusiveMinValue',
+  'exclusiveMaxValue',
+  'multipleOf',
+  'matchesPattern',
+  'enum',
+  'const',
+  'allOf',
+  'anyOf',
+  'oneOf',
+  'not',
+  'discriminator',
+  '$ref',
+  'if',
+  'then',
+  'else',
+  'dependentRequired',
+  'dependentSchemas',
+  'required',
+  'additionalProperties',
+  'errorMessage',
+  'validate'
+];
@@ -0,0 +1,19 @@
+import { ValidationError } from '../interfaces/MikroValid.js';
+
+/**
+ * @description Used when an input does not pass validation, for example when calling `assert()`.
+ * The individual failures are available in `errors`.
+ */
+export class ValidationException extends Error {
+  public readonly errors: ValidationError[];
+
+  constructor(errors: ValidationError[]) {
+    super(
+      `Validation failed: ${errors
+        .map((error: ValidationError) => (error.key ? `${error.key}: ${error.error}` : error.error))
+        .join(', ')}`
+    );
+    this.name = 'ValidationException';
+    this.errors = errors;
+  }
+}
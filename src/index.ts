@@ -1 +1,5 @@
+export * from './domain/JsonSchemaConverter.js';
 export * from './domain/MikroValid.js';
+export * from './errors/ValidationException.js';
+export * from './interfaces/JsonSchema.js';
+export * from './interfaces/MikroValid.js';
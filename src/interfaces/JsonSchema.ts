@@ -0,0 +1,29 @@
+import { ValidationSchema } from './MikroValid.js';
+
+/**
+ * @description A JSON Schema (draft-07 or 2020-12) document or sub-schema.
+ */
+export type JsonSchema = boolean | JsonSchemaObject;
+
+export type JsonSchemaObject = { [keyword: string]: any };
+
+/**
+ * @description A keyword that could not be translated, either from a JSON Schema
+ * document to MikroValid or the other way around. The `path` is a JSON Pointer
+ * into the source document or schema.
+ */
+export type UnsupportedKeyword = {
+  keyword: string;
+  path: string;
+  value: unknown;
+};
+
+export type JsonSchemaImport = {
+  schema: ValidationSchema;
+  unsupported: UnsupportedKeyword[];
+};
+
+export type JsonSchemaExport = {
+  schema: JsonSchemaObject;
+  unsupported: UnsupportedKeyword[];
+};
@@ -3,14 +3,280 @@ export type Result = {
   value: ValidationValue;
   success: boolean;
   error: string;
+  /**
+   * The keyword that the value failed, such as `minLength` or `required`.
+   */
+  code?: string;
+  /**
+   * The parameters of the keyword, such as `{ min: 2 }` for `minLength`.
+   */
+  params?: Record<string, unknown>;
+  /**
+   * Where the value is in the input, as a JSON Pointer, such as `/orders/2/qty`.
+   */
+  instancePath: string;
+  /**
+   * Where the keyword is in the schema, as a JSON Pointer, such as `/properties/name/minLength`.
+   */
+  schemaPath: string;
 };
 
 export type ValidationResult = {
   success: boolean;
   error?: string;
+  pending?: Promise<ValidationOutcome>;
+  check: ValidationCheck;
 };
 
-export type ValidationFormat = 'alphanumeric' | 'date' | 'email' | 'hexColor' | 'numeric' | 'url';
+/**
+ * @description What a validator returns: whether the value is valid, or an error message.
+ */
+export type ValidationOutcome = boolean | string;
+
+/**
+ * @description The rule of a keyword, with its schema values resolved ahead of time.
+ */
+export type CheckRule = {
+  validator: (
+    value: ValidationValue,
+    context: ValidationContext
+  ) => ValidationOutcome | Promise<ValidationOutcome>;
+  error: string;
+  /**
+   * The parameters of the rule, such as `min` for `minLength`,
+   * which can be used as placeholders in custom error messages.
+   */
+  params: Record<string, unknown>;
+  /**
+   * Gets what the value actually has, such as its length for `minLength`,
+   * which is added to the parameters as `actual` when the check fails.
+   */
+  actual?: (value: ValidationValue) => unknown;
+};
+
+/**
+ * @description A field-level check: the rule of a keyword in a specific definition.
+ */
+export type ValidationCheck = CheckRule & {
+  keyword: string;
+  /**
+   * The custom error message from `errorMessage`, if there is one.
+   */
+  message?: string;
+  /**
+   * Where the keyword is in the schema, as a JSON Pointer.
+   */
+  schemaPath: string;
+};
+
+/**
+ * @description A schema definition that has been compiled ahead of time,
+ * so that it can be used for any number of validations.
+ */
+export type CompiledDefinition = {
+  checks: ValidationCheck[];
+  propertyKeys: string[];
+  properties: Record<string, CompiledDefinition | undefined>;
+  requiredKeys: readonly string[];
+  /**
+   * The property keys, including those of any `allOf`, `anyOf` and `oneOf` branches.
+   */
+  knownKeys: string[];
+  additionalProperties: 'passthrough' | 'strip' | 'reject';
+  /**
+   * Whether unknown properties are stripped here or in any nested definition.
+   */
+  isStripping: boolean;
+  items?: CompiledDefinition;
+  /**
+   * The definitions of the elements at specific positions, as in a tuple.
+   */
+  prefixItems: CompiledDefinition[];
+  /**
+   * Whether the array may have more elements than `prefixItems`.
+   */
+  additionalItems: boolean;
+  /**
+   * The definition that at least `minContains`, and at most `maxContains`, elements must match.
+   */
+  contains?: CompiledDefinition;
+  minContains: number;
+  maxContains?: number;
+  type?: ValidationTypes;
+  default?: unknown;
+  composition: CompiledComposition[];
+  discriminator?: CompiledDiscriminator;
+  conditions: CompiledCondition[];
+  dependentRequired: Record<string, readonly string[]>;
+  errorMessage?: ErrorMessage;
+  /**
+   * Where the definition is in the schema, as a JSON Pointer, such as `/properties/name`.
+   */
+  schemaPath: string;
+};
+
+/**
+ * @description Either `if`, `then` and `else`, or one of the `dependentSchemas`,
+ * where `then` applies when the object has the `property`.
+ */
+export type CompiledCondition = {
+  if?: CompiledDefinition;
+  property?: string;
+  then?: CompiledDefinition;
+  else?: CompiledDefinition;
+};
+
+/**
+ * @description What is needed to compile a schema: the schema itself, for resolving
+ * references, and the definitions compiled for each reference so far.
+ */
+export type CompileContext = {
+  schema: ReferenceSchema;
+  references: Map<unknown, Map<string, CompiledDefinition>>;
+};
+
+/**
+ * @description The parts of a schema that references (`$ref`) can point to.
+ */
+export type ReferenceSchema = {
+  properties: Record<string, any>;
+  definitions?: Record<string, Record<string, any>>;
+};
+
+export type CompositionKeyword = 'allOf' | 'anyOf' | 'oneOf' | 'not';
+
+export type CompiledDiscriminator = {
+  propertyName: string;
+  mapping: Record<string, CompiledDefinition>;
+};
+
+/**
+ * @description Selects the definition (or "variant") to validate an object against,
+ * based on the value of one of its properties.
+ */
+export type Discriminator = {
+  /**
+   * The name of the property that selects the variant, such as `type`.
+   */
+  propertyName: string;
+  /**
+   * The variant for each value of the property.
+   */
+  mapping: Record<string, Record<string, any>>;
+};
+
+export type CompiledComposition = {
+  keyword: CompositionKeyword;
+  branches: CompiledDefinition[];
+};
+
+export type TestResult = {
+  errors: ValidationError[];
+  success: boolean;
+  /**
+   * The converted input, when using `coerce`, `useDefaults` or `additionalProperties: 'strip'`.
+   */
+  data?: Record<string, any>;
+};
+
+/**
+ * @description A reusable validator function, as returned by `compile()`.
+ */
+export type CompiledValidator = (input: Record<string, any>) => TestResult;
+
+export type MikroValidOptions = {
+  /**
+   * Silences (suppresses) non-critical messages, such as warnings.
+   */
+  isSilent?: boolean;
+  /**
+   * How to handle unknown properties in schema definitions that don't set
+   * `additionalProperties` themselves. Defaults to `true`.
+   */
+  additionalProperties?: AdditionalProperties;
+};
+
+/**
+ * @description How to handle properties that are not in the schema:
+ * - `true` or `'passthrough'`: allow them and keep them as they are
+ * - `false`: disallow them, which gives an error
+ * - `'strip'`: remove them, and return the cleaned input as `data`
+ */
+export type AdditionalProperties = boolean | 'strip' | 'passthrough';
+
+/**
+ * @description How to compare the elements of an array that must be unique:
+ * - `true`: compare the elements themselves, with deep equality
+ * - a property name, such as `'id'`: compare that property of each element
+ * - a function: compare what it returns for each element
+ */
+export type UniqueItems = boolean | string | ((item: any) => unknown);
+
+/**
+ * @description A custom error message for every keyword of a definition,
+ * or custom error messages for some keywords, such as `minLength`.
+ *
+ * Messages can use the parameters of a keyword, such as `{min}`, and
+ * the validated value, `{value}`, as placeholders.
+ */
+export type ErrorMessage = string | Readonly<Record<string, string>>;
+
+export type ValidationOptions = {
+  /**
+   * Converts strings to the types in the schema, such as `"42"` to `42` for
+   * a number, before validating. The converted input is returned as `data`.
+   */
+  coerce?: boolean;
+  /**
+   * Fills in missing values with the `default` values in the schema.
+   * The input with the defaults applied is returned as `data`.
+   */
+  useDefaults?: boolean;
+  /**
+   * Stops the validation at the first error. The same as `maxErrors: 1`.
+   */
+  abortEarly?: boolean;
+  /**
+   * Stops the validation once it has found this many errors, and returns no more than these.
+   */
+  maxErrors?: number;
+};
+
+export type AsyncValidationOptions = ValidationOptions & {
+  /**
+   * Aborts the validation when the signal is aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * Aborts the validation after this many milliseconds.
+   */
+  timeout?: number;
+};
+
+export type ParseResult<Data> =
+  | { success: true; data: Data }
+  | { success: false; errors: ValidationError[] };
+
+export type ValidationFormat =
+  | 'alphanumeric'
+  | 'cidr'
+  | 'date'
+  | 'email'
+  | 'hexColor'
+  | 'hostname'
+  | 'ipv4'
+  | 'ipv6'
+  | 'numeric'
+  | 'semver'
+  | 'ulid'
+  | 'url'
+  | 'uuid';
+
+/**
+ * @description A custom format, either as a regular expression
+ * or a function that returns whether the value is valid.
+ */
+export type ValidationFormatRule = RegExp | ((value: string) => boolean);
 
 export type ValidationValue =
   | string
@@ -22,90 +288,420 @@ export type ValidationValue =
   | Record<string, any>
   | Record<string, any>[];
 
-export type ValidationTypes = ValidTypes | ValidTypes[];
+export type ValidationTypes = ValidTypes | ReadonlyArray<ValidTypes>;
 
-type ValidTypes = 'string' | 'number' | 'boolean' | 'object' | 'array';
+type ValidTypes = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
 
 export type ValidationError = Result;
 
+/**
+ * @description Information about where a value is located,
+ * given to custom keyword validators and `validate` functions.
+ */
+export type ValidationContext = {
+  /**
+   * The full path to the value, e.g. `orders[2].qty`.
+   */
+  key: string;
+  /**
+   * The location of the value as a JSON Pointer, e.g. `/orders/2/qty`.
+   */
+  instancePath: string;
+  /**
+   * The object or array that contains the value.
+   */
+  parent: Record<string, any> | ValidationValue[];
+  /**
+   * The complete input that is being validated.
+   */
+  root: Record<string, any>;
+  /**
+   * Signals when an asynchronous validation is aborted. Only set when using `testAsync()`.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * @description A custom keyword. The `validator` gets the input value,
+ * the keyword's value in the schema and the validation context.
+ * Asynchronous validators are supported by `testAsync()`.
+ */
+export type ValidationKeyword<Value = any> = {
+  validator: (
+    value: any,
+    keywordValue: Value,
+    context: ValidationContext
+  ) => boolean | Promise<boolean>;
+  error: string;
+};
+
+/**
+ * @description A function that validates a value. Return `true` if it is valid,
+ * or `false` or an error message if it is not. Asynchronous functions are
+ * supported by `testAsync()`.
+ */
+export type ValidateFunction = (
+  value: any,
+  context: ValidationContext
+) => ValidationOutcome | Promise<ValidationOutcome>;
+
+export type ValidationState = {
+  results: Result[];
+  errors: ValidationError[];
+  root: Record<string, any>;
+  /**
+   * The definitions that each nested object or array is being validated against.
+   */
+  visiting: WeakMap<object, Set<CompiledDefinition>>;
+  pending?: Promise<void>[];
+  signal?: AbortSignal;
+  coerce?: boolean;
+  useDefaults?: boolean;
+  strip?: boolean;
+  /**
+   * The number of errors after which the validation stops.
+   */
+  maxErrors?: number;
+  /**
+   * Set when validating a branch of a composition, such as `anyOf`.
+   */
+  isBranch?: boolean;
+};
+
 interface RootProperties<Required> {
-  required?: Array<Required>;
-  additionalProperties?: boolean;
+  required?: ReadonlyArray<Required>;
+  additionalProperties?: AdditionalProperties;
+  allOf?: ReadonlyArray<CompositionBranch>;
+  anyOf?: ReadonlyArray<CompositionBranch>;
+  oneOf?: ReadonlyArray<CompositionBranch>;
+  not?: CompositionBranch;
+  discriminator?: Discriminator;
+  errorMessage?: ErrorMessage;
+  if?: CompositionBranch;
+  then?: CompositionBranch;
+  else?: CompositionBranch;
+  dependentRequired?: Readonly<Record<string, ReadonlyArray<string>>>;
+  dependentSchemas?: Readonly<Record<string, CompositionBranch>>;
+}
+
+interface PropertyType<Required> extends RootProperties<Required> {
+  $ref?: string;
+  validate?: ValidateFunction;
+  enum?: ReadonlyArray<unknown>;
+  const?: unknown;
 }
 
-interface StringType<Required> extends RootProperties<Required> {
+/**
+ * @description A branch of a composition: a schema definition, where `type` is optional.
+ */
+type CompositionBranch = Record<string, any>;
+
+interface StringType<Required, Formats extends string> extends PropertyType<Required> {
   type: Extract<ValidationTypes, 'string'>;
-  format?: ValidationFormat;
+  default?: string;
+  format?: ValidationFormat | Formats;
   items?: never;
+  prefixItems?: never;
+  additionalItems?: never;
+  uniqueItems?: never;
+  contains?: never;
+  minContains?: never;
+  maxContains?: never;
   minValue?: never;
   maxValue?: never;
+  exclusiveMinValue?: never;
+  exclusiveMaxValue?: never;
+  multipleOf?: never;
   minLength?: number;
   maxLength?: number;
   matchesPattern?: RegExp;
 }
 
-interface ArrayType<Required> extends RootProperties<Required> {
+interface ArrayType<Required, Items, PrefixItems, Formats extends string, Keywords>
+  extends PropertyType<Required> {
   type: Extract<ValidationTypes, 'array'>;
+  default?: ReadonlyArray<unknown>;
   format?: never;
-  items?: { type: ValidationTypes };
+  items?: SchemaDefinition<Items, Formats, Keywords>;
+  prefixItems?: {
+    [Index in keyof PrefixItems]: SchemaDefinition<PrefixItems[Index], Formats, Keywords>;
+  };
+  additionalItems?: boolean;
+  uniqueItems?: UniqueItems;
+  contains?: CompositionBranch;
+  minContains?: number;
+  maxContains?: number;
   minValue?: never;
   maxValue?: never;
+  exclusiveMinValue?: never;
+  exclusiveMaxValue?: never;
+  multipleOf?: never;
   minLength?: number;
   maxLength?: number;
   matchesPattern?: never;
 }
 
-interface NumberType<Required> extends RootProperties<Required> {
-  type: Extract<ValidationTypes, 'number'>;
+interface NumberType<Required> extends PropertyType<Required> {
+  type: Extract<ValidationTypes, 'number' | 'integer'>;
+  default?: number;
   format?: never;
   items?: never;
+  prefixItems?: never;
+  additionalItems?: never;
+  uniqueItems?: never;
+  contains?: never;
+  minContains?: never;
+  maxContains?: never;
   minValue?: number;
   maxValue?: number;
+  exclusiveMinValue?: number;
+  exclusiveMaxValue?: number;
+  /**
+   * The number must be a multiple of this, such as `0.01` for amounts of money.
+   */
+  multipleOf?: number;
   minLength?: never;
   maxLength?: never;
   matchesPattern?: never;
 }
 
-interface RestType<Required> extends RootProperties<Required> {
-  type: Exclude<ValidationTypes, 'string' | 'number'>;
+interface RestType<Required> extends PropertyType<Required> {
+  type: Exclude<ValidationTypes, 'string' | 'number' | 'integer'>;
+  default?: unknown;
   format?: never;
   items?: never;
+  prefixItems?: never;
+  additionalItems?: never;
+  uniqueItems?: never;
+  contains?: never;
+  minContains?: never;
+  maxContains?: never;
   minValue?: never;
   maxValue?: never;
+  exclusiveMinValue?: never;
+  exclusiveMaxValue?: never;
+  multipleOf?: never;
   minLength?: never;
   maxLength?: never;
   matchesPattern?: never;
 }
 
-type AllTypes<Required> =
-  | StringType<Required>
+/**
+ * @description A definition that is only described by its composition,
+ * or by a reference, so it needs no `type`.
+ */
+type CompositionType<Required> = PropertyType<Required> & {
+  type?: never;
+} & (
+    | { allOf: ReadonlyArray<CompositionBranch> }
+    | { anyOf: ReadonlyArray<CompositionBranch> }
+    | { oneOf: ReadonlyArray<CompositionBranch> }
+    | { not: CompositionBranch }
+    | { discriminator: Discriminator }
+    | { $ref: string }
+  );
+
+type AllTypes<
+  Required,
+  Items = any,
+  Formats extends string = never,
+  Keywords = NoKeywords,
+  PrefixItems = never
+> =
+  | StringType<Required, Formats>
   | NumberType<Required>
   | RestType<Required>
-  | ArrayType<Required>;
+  | ArrayType<Required, Items, PrefixItems, Formats, Keywords>
+  | CompositionType<Required>;
+
+type NoKeywords = Record<never, never>;
 
 type KeysOfUnion<T> = T extends T ? keyof T : never;
 
-type ExcludeFromAllTypes<T, K> = Exclude<K, KeysOfUnion<AllTypes<T>>>;
+type ExcludeFromAllTypes<T, K, Keywords = NoKeywords> = Exclude<
+  K,
+  KeysOfUnion<AllTypes<T>> | keyof Keywords
+>;
+
+type ItemsOf<S> = S extends { items: infer Items } ? Items : any;
 
-export interface RootDefinition<S extends { properties: any }> {
-  properties: FirstLevelDefinition<S['properties']>;
+type PrefixItemsOf<S> = S extends { prefixItems: infer PrefixItems } ? PrefixItems : never;
+
+export interface RootDefinition<
+  S extends { properties: any },
+  Formats extends string = never,
+  Keywords = NoKeywords
+> {
+  properties: FirstLevelDefinition<S['properties'], Formats, Keywords>;
+  definitions?: {
+    [Key in keyof DefinitionsOf<S>]: SchemaDefinition<DefinitionsOf<S>[Key], Formats, Keywords>;
+  };
 }
 
-export type FirstLevelDefinition<S> = RootProperties<
-  Extract<ExcludeFromAllTypes<S, keyof S>, string>
-> & {
-  [Key in keyof S as ExcludeFromAllTypes<S, Key>]: SchemaDefinition<S[Key]>;
+type DefinitionsOf<S> = S extends { definitions: infer Definitions } ? Definitions : NoKeywords;
+
+export type FirstLevelDefinition<
+  S,
+  Formats extends string = never,
+  Keywords = NoKeywords
+> = RootProperties<Extract<ExcludeFromAllTypes<S, keyof S, Keywords>, string>> & {
+  [Key in keyof S as ExcludeFromAllTypes<S, Key, Keywords>]: SchemaDefinition<
+    S[Key],
+    Formats,
+    Keywords
+  >;
 };
 
-export type SchemaDefinition<S> = AllTypes<Extract<ExcludeFromAllTypes<S, keyof S>, string>> & {
-  [Key in keyof S as ExcludeFromAllTypes<S, Key>]: SchemaDefinition<S[Key]>;
+export type SchemaDefinition<S, Formats extends string = never, Keywords = NoKeywords> = AllTypes<
+  Extract<ExcludeFromAllTypes<S, keyof S, Keywords>, string>,
+  ItemsOf<S>,
+  Formats,
+  Keywords,
+  PrefixItemsOf<S>
+> &
+  Partial<Keywords> & {
+    [Key in keyof S as ExcludeFromAllTypes<S, Key, Keywords>]: SchemaDefinition<
+      S[Key],
+      Formats,
+      Keywords
+    >;
+  };
+
+/**
+ * @description Infers the TypeScript type of valid input from a schema.
+ *
+ * Keys listed in `required` become mandatory, all other keys are optional.
+ * Declare the schema `as const` so that literal values such as `type` are preserved.
+ *
+ * @example
+ * const schema = {
+ *   properties: {
+ *     name: { type: 'string' },
+ *     tags: { type: 'array', items: { type: 'string' } },
+ *     required: ['name']
+ *   }
+ * } as const;
+ *
+ * type Person = Infer<typeof schema>; // { name: string; tags?: string[] }
+ */
+export type Infer<S extends { properties: any }> = InferObject<S['properties'], S> &
+  InferComposition<S['properties'], S>;
+
+type PropertyKeysOf<S> = {
+  [Key in Extract<ExcludeFromAllTypes<S, keyof S>, string>]: S[Key] extends
+    | { type: any }
+    | { allOf: any }
+    | { anyOf: any }
+    | { oneOf: any }
+    | { not: any }
+    | { discriminator: any }
+    | { $ref: any }
+    ? Key
+    : never;
+}[Extract<ExcludeFromAllTypes<S, keyof S>, string>];
+
+type RequiredKeysOf<S> = S extends { required: ReadonlyArray<infer Key> }
+  ? Extract<Key, PropertyKeysOf<S>>
+  : never;
+
+type Simplify<T> = { [Key in keyof T]: T[Key] };
+
+/*
+ * The inference types below also get the whole schema, as `Root`,
+ * so that references (`$ref`) can be resolved.
+ */
+
+type InferObject<S, Root> = [PropertyKeysOf<S>] extends [never]
+  ? Record<string, unknown>
+  : Simplify<
+      { -readonly [Key in RequiredKeysOf<S>]: InferProperty<S[Key], Root> } & {
+        -readonly [Key in Exclude<PropertyKeysOf<S>, RequiredKeysOf<S>>]?: InferProperty<
+          S[Key],
+          Root
+        >;
+      }
+    >;
+
+type InferProperty<S, Root> = S extends { $ref: infer Ref }
+  ? InferProperty<Omit<ResolveReference<Ref, Root>, keyof S> & Omit<S, '$ref'>, Root>
+  : S extends { const: infer Value }
+    ? Value
+    : S extends { enum: ReadonlyArray<infer Values> }
+      ? Values
+      : InferTypeOf<S, Root> & InferComposition<S, Root>;
+
+type ResolveReference<Ref, Root> = Ref extends '#'
+  ? Root extends { properties: infer Properties }
+    ? Properties & { type: 'object' }
+    : unknown
+  : Ref extends `#/definitions/${infer Name}`
+    ? Root extends { definitions: { [Key in Name]: infer Definition } }
+      ? Definition
+      : unknown
+    : unknown;
+
+type InferTypeOf<S, Root> = S extends { type: infer Type }
+  ? Type extends ReadonlyArray<infer Types>
+    ? InferType<Types, S, Root>
+    : InferType<Type, S, Root>
+  : unknown;
+
+type InferComposition<S, Root> = (S extends { allOf: infer Branches }
+  ? InferAll<Branches, Root>
+  : unknown) &
+  (S extends { anyOf: ReadonlyArray<infer Branch> } ? InferProperty<Branch, Root> : unknown) &
+  (S extends { oneOf: ReadonlyArray<infer Branch> } ? InferProperty<Branch, Root> : unknown) &
+  (S extends { discriminator: infer D } ? InferDiscriminator<D, Root> : unknown);
+
+type InferDiscriminator<D, Root> = D extends {
+  propertyName: infer Name extends string;
+  mapping: infer M;
+}
+  ? {
+      [Tag in keyof M]: Simplify<{ -readonly [Key in Name]: Tag } & InferProperty<M[Tag], Root>>;
+    }[keyof M]
+  : unknown;
+
+type InferAll<Branches, Root> = Branches extends readonly [infer First, ...infer Rest]
+  ? InferProperty<First, Root> & InferAll<Rest, Root>
+  : unknown;
+
+type InferType<Type, S, Root> = Type extends 'string'
+  ? string
+  : Type extends 'number' | 'integer'
+    ? number
+    : Type extends 'boolean'
+      ? boolean
+      : Type extends 'array'
+        ? InferArray<S, Root>
+        : Type extends 'object'
+          ? InferObject<S, Root>
+          : unknown;
+
+type InferArray<S, Root> = S extends {
+  prefixItems: infer PrefixItems extends ReadonlyArray<unknown>;
+}
+  ? [...InferTuple<PrefixItems, Root>, ...InferRestItems<S, Root>]
+  : S extends { items: infer Items }
+    ? Array<InferProperty<Items, Root>>
+    : unknown[];
+
+type InferTuple<PrefixItems extends ReadonlyArray<unknown>, Root> = {
+  -readonly [Index in keyof PrefixItems]: InferProperty<PrefixItems[Index], Root>;
 };
 
+type InferRestItems<S, Root> = S extends { additionalItems: false }
+  ? []
+  : S extends { items: infer Items }
+    ? Array<InferProperty<Items, Root>>
+    : unknown[];
+
 // Simplified types for schema generation from input
 
 export type ValidationSchema = {
   type?: string;
   properties?: { [key: string]: ValidationSchema | PropertySchema | unknown }; // Bit of a hack to add `additionalProperties` and `required` via `schemaFrom()`
+  definitions?: { [key: string]: unknown };
   additionalProperties?: boolean;
   required?: string[];
   items?: ValidationSchema | PropertySchema; // For arrays
@@ -0,0 +1,1038 @@
+import { describe, test, expect } from 'vitest';
+
+import { JsonSchemaConverter } from '../src/domain/JsonSchemaConverter.js';
+import { MikroValid } from '../src/domain/MikroValid.js';
+
+const converter = new JsonSchemaConverter();
+const mikrovalid = new MikroValid(true);
+
+/**
+ * POSITIVE TESTS
+ */
+describe('Importing JSON Schema', () => {
+  test('It should move property definitions out of "properties"', () => {
+    const expected = {
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'number' },
+        required: ['name'],
+        additionalProperties: false
+      }
+    };
+
+    const { schema, unsupported } = converter.fromJsonSchema({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'number' }
+      },
+      required: ['name'],
+      additionalProperties: false
+    });
+
+    expect(schema).toEqual(expected);
+    expect(unsupported).toEqual([]);
+  });
+
+  test('It should map constraint keywords to their MikroValid counterparts', () => {
+    const expected = {
+      properties: {
+        name: { type: 'string', minLength: 2, maxLength: 20, matchesPattern: /^[A-Z]/u },
+        age: { type: 'number', default: 18, minValue: 0, maxValue: 150 },
+        tags: { type: 'array', minLength: 1, maxLength: 5, items: { type: 'string' } },
+        email: { type: 'string', format: 'email' },
+        website: { type: 'string', format: 'url', enum: ['https://a.com', 'https://b.com'] },
+        birthday: { type: 'string', format: 'date' }
+      }
+    };
+
+    const { schema, unsupported } = converter.fromJsonSchema({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 2, maxLength: 20, pattern: '^[A-Z]' },
+        age: { type: 'number', default: 18, minimum: 0, maximum: 150 },
+        tags: { type: 'array', minItems: 1, maxItems: 5, items: { type: 'string' } },
+        email: { type: 'string', format: 'email' },
+        website: { type: 'string', format: 'uri', enum: ['https://a.com', 'https://b.com'] },
+        birthday: { type: 'string', format: 'date' }
+      }
+    });
+
+    expect(schema).toEqual(expected);
+    expect(unsupported).toEqual([]);
+  });
+
+  test('It should map network and identifier formats', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        host: { type: 'string', format: 'hostname' },
+        ip: { type: 'string', format: 'ipv4' },
+        ip6: { type: 'string', format: 'ipv6' }
+      }
+    });
+
+    expect(schema).toEqual({
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        host: { type: 'string', format: 'hostname' },
+        ip: { type: 'string', format: 'ipv4' },
+        ip6: { type: 'string', format: 'ipv6' }
+      }
+    });
+    expect(unsupported).toEqual([]);
+  });
+
+  test('It should compile patterns with Unicode semantics', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      type: 'object',
+      properties: {
+        name: { type: 'string', pattern: '^\\p{Lu}' }
+      }
+    });
+
+    expect(schema).toEqual({
+      properties: { name: { type: 'string', matchesPattern: /^\p{Lu}/u } }
+    });
+    expect(unsupported).toEqual([]);
+    expect(mikrovalid.test(schema as any, { name: 'Éva' }).success).toBe(true);
+    expect(mikrovalid.test(schema as any, { name: 'éva' }).success).toBe(false);
+  });
+
+  test('It should convert nested objects and arrays of objects', () => {
+    const expected = {
+      properties: {
+        address: {
+          type: 'object',
+          street: { type: 'string' },
+          required: ['street']
+        },
+        orders: {
+          type: 'array',
+          items: {
+            type: 'object',
+            sku: { type: 'string' },
+            qty: { type: 'number', minValue: 1 },
+            required: ['sku', 'qty'],
+            additionalProperties: false
+          }
+        }
+      }
+    };
+
+    const { schema } = converter.fromJsonSchema({
+      type: 'object',
+      properties: {
+        address: {
+          properties: { street: { type: 'string' } },
+          required: ['street']
+        },
+        orders: {
+          items: {
+            type: 'object',
+            properties: {
+              sku: { type: 'string' },
+              qty: { type: 'number', minimum: 1 }
+            },
+            required: ['sku', 'qty'],
+            additionalProperties: false
+          }
+        }
+      }
+    });
+
+    expect(schema).toEqual(expected);
+  });
+
+  test('It should convert composition keywords', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      type: 'object',
+      properties: {
+        payment: {
+          type: 'object',
+          oneOf: [
+            { properties: { cardNumber: { type: 'string' } }, required: ['cardNumber'] },
+            { properties: { invoiceNumber: { type: 'string' } }, required: ['invoiceNumber'] }
+          ]
+        },
+        id: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+        code: {
+          type: 'string',
+          allOf: [{ minLength: 2 }, { maxLength: 4 }],
+          not: { const: 'NONE' }
+        }
+      }
+    });
+
+    expect(unsupported).toEqual([]);
+    expect(schema).toEqual({
+      properties: {
+        payment: {
+          type: 'object',
+          oneOf: [
+            { type: 'object', cardNumber: { type: 'string' }, required: ['cardNumber'] },
+            { type: 'object', invoiceNumber: { type: 'string' }, required: ['invoiceNumber'] }
+          ]
+        },
+        id: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+        code: {
+          type: 'string',
+          allOf: [{ minLength: 2 }, { maxLength: 4 }],
+          not: { const: 'NONE' }
+        }
+      }
+    });
+  });
+
+  test('It should convert definitions and references to them', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      type: 'object',
+      $defs: {
+        node: {
+          type: 'object',
+          properties: { children: { type: 'array', items: { $ref: '#/$defs/node' } } }
+        }
+      },
+      definitions: { name: { type: 'string' } },
+      properties: {
+        tree: { $ref: '#/$defs/node' },
+        name: { $ref: '#/definitions/name' },
+        parent: { $ref: '#' },
+        remote: { $ref: 'https://example.com/schema.json' },
+        nested: { type: 'object', $defs: { id: { type: 'string' } } }
+      }
+    });
+
+    expect(schema).toEqual({
+      properties: {
+        tree: { $ref: '#/definitions/node' },
+        name: { $ref: '#/definitions/name' },
+        parent: { $ref: '#' },
+        remote: {},
+        nested: { type: 'object' }
+      },
+      definitions: {
+        node: {
+          type: 'object',
+          children: { type: 'array', items: { $ref: '#/definitions/node' } }
+        },
+        name: { type: 'string' }
+      }
+    });
+    expect(unsupported).toEqual([
+      {
+        keyword: '$ref',
+        path: '/properties/remote/$ref',
+        value: 'https://example.com/schema.json'
+      },
+      {
+        keyword: '$defs',
+        path: '/properties/nested/$defs',
+        value: { id: { type: 'string' } }
+      }
+    ]);
+  });
+
+  test('It should convert conditional keywords', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      type: 'object',
+      properties: { country: { type: 'string' }, state: { type: 'string' } },
+      if: { properties: { country: { const: 'US' } } },
+      then: { required: ['state'] },
+      else: { properties: { state: { maxLength: 0 } } },
+      dependentRequired: { state: ['country'] },
+      dependentSchemas: { country: { properties: { country: { minLength: 2 } } } }
+    });
+
+    expect(schema).toEqual({
+      properties: {
+        country: { type: 'string' },
+        state: { type: 'string' },
+        if: { type: 'object', country: { const: 'US' } },
+        then: { required: ['state'] },
+        else: { type: 'object', state: { maxLength: 0 } },
+        dependentRequired: { state: ['country'] },
+        dependentSchemas: { country: { type: 'object', country: { minLength: 2 } } }
+      }
+    });
+    expect(unsupported).toEqual([]);
+    expect(mikrovalid.test(schema as any, { country: 'US' }).success).toBe(false);
+    expect(mikrovalid.test(schema as any, { country: 'SE' }).success).toBe(true);
+    expect(mikrovalid.test(schema as any, { state: '' }).success).toBe(false);
+  });
+
+  test('It should convert tuples in both the 2020-12 and the draft-07 forms', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      type: 'object',
+      properties: {
+        point: {
+          type: 'array',
+          prefixItems: [{ type: 'number' }, { type: 'number' }],
+          items: false,
+          minItems: 2
+        },
+        row: {
+          type: 'array',
+          items: [{ type: 'string' }, { type: 'boolean' }],
+          additionalItems: { type: 'number' },
+          minItems: 2
+        }
+      }
+    });
+
+    expect(schema).toEqual({
+      properties: {
+        point: {
+          type: 'array',
+          prefixItems: [{ type: 'number' }, { type: 'number' }],
+          additionalItems: false,
+          minLength: 2
+        },
+        row: {
+          type: 'array',
+          prefixItems: [{ type: 'string' }, { type: 'boolean' }],
+          items: { type: 'number' },
+          minLength: 2
+        }
+      }
+    });
+    expect(unsupported).toEqual([]);
+    expect(mikrovalid.test(schema as any, { point: [1, 2], row: ['a', true, 3] }).success).toBe(
+      true
+    );
+    expect(mikrovalid.test(schema as any, { point: [1, 2, 3] }).success).toBe(false);
+  });
+
+  test('It should convert unique items and contains', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      properties: {
+        tags: { type: 'array', uniqueItems: true, items: { type: 'string' } },
+        scores: { contains: { type: 'number', minimum: 90 }, minContains: 2, maxContains: 3 }
+      }
+    });
+
+    expect(schema).toEqual({
+      properties: {
+        tags: { type: 'array', uniqueItems: true, items: { type: 'string' } },
+        scores: {
+          type: 'array',
+          contains: { type: 'number', minValue: 90 },
+          minContains: 2,
+          maxContains: 3
+        }
+      }
+    });
+    expect(unsupported).toEqual([]);
+  });
+
+  test('It should convert integers and numeric constraints', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      properties: {
+        quantity: { type: 'integer', exclusiveMinimum: 0 },
+        price: { type: 'number', multipleOf: 0.01, exclusiveMaximum: 10000 }
+      }
+    });
+
+    expect(schema).toEqual({
+      properties: {
+        quantity: { type: 'integer', exclusiveMinValue: 0 },
+        price: { type: 'number', multipleOf: 0.01, exclusiveMaxValue: 10000 }
+      }
+    });
+    expect(unsupported).toEqual([]);
+    expect(mikrovalid.test(schema as any, { quantity: 2, price: 19.99 }).success).toBe(true);
+    expect(mikrovalid.test(schema as any, { quantity: 0 }).success).toBe(false);
+    expect(mikrovalid.test(schema as any, { quantity: 1.5 }).success).toBe(false);
+    expect(mikrovalid.test(schema as any, { price: 19.999 }).success).toBe(false);
+  });
+
+  test('It should keep multiple types', () => {
+    const { schema } = converter.fromJsonSchema({
+      properties: {
+        field: { type: ['string', 'boolean'] }
+      }
+    });
+
+    expect(schema).toEqual({ properties: { field: { type: ['string', 'boolean'] } } });
+  });
+
+  test('It should ignore annotations without reporting them', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      $id: 'https://example.com/person.json',
+      title: 'Person',
+      description: 'A person',
+      properties: {
+        name: { type: 'string', description: 'The name', examples: ['Sam'] }
+      }
+    });
+
+    expect(schema).toEqual({ properties: { name: { type: 'string' } } });
+    expect(unsupported).toEqual([]);
+  });
+
+  test('It should produce a schema that validates input', () => {
+    const { schema } = converter.fromJsonSchema({
+      type: 'object',
+      properties: {
+        name: { type: 'string', pattern: '^[A-Z]' },
+        orders: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { qty: { type: 'number', minimum: 1 } },
+            required: ['qty']
+          }
+        }
+      },
+      required: ['name']
+    });
+
+    expect(mikrovalid.test(schema as any, { name: 'Sam', orders: [{ qty: 1 }] }).success).toBe(
+      true
+    );
+    expect(mikrovalid.test(schema as any, { name: 'sam', orders: [{ qty: 0 }] }).success).toBe(
+      false
+    );
+  });
+});
+
+describe('Exporting JSON Schema', () => {
+  test('It should convert a schema to a JSON Schema 2020-12 document', () => {
+    const expected = {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 2, maxLength: 20, pattern: '^[A-Z]' },
+        age: { type: 'number', default: 18, minimum: 0, maximum: 150 },
+        tags: { type: 'array', minItems: 1, items: { type: 'string' } },
+        email: { type: 'string', format: 'email' },
+        website: { type: 'string', format: 'uri' },
+        birthday: { type: 'string', format: 'date' }
+      },
+      required: ['name'],
+      additionalProperties: false
+    };
+
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      properties: {
+        name: { type: 'string', minLength: 2, maxLength: 20, matchesPattern: /^[A-Z]/ },
+        age: { type: 'number', default: 18, minValue: 0, maxValue: 150 },
+        tags: { type: 'array', minLength: 1, items: { type: 'string' } },
+        email: { type: 'string', format: 'email' },
+        website: { type: 'string', format: 'url' },
+        birthday: { type: 'string', format: 'date' },
+        required: ['name'],
+        additionalProperties: false
+      }
+    });
+
+    expect(jsonSchema).toEqual(expected);
+  });
+
+  test('It should convert multiple types, including lengths for both strings and arrays', () => {
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      properties: {
+        field: { type: ['string', 'array'], minLength: 1, maxLength: 3 }
+      }
+    });
+
+    expect(jsonSchema.properties.field).toEqual({
+      type: ['string', 'array'],
+      minLength: 1,
+      maxLength: 3,
+      minItems: 1,
+      maxItems: 3
+    });
+  });
+
+  test('It should express formats without a JSON Schema counterpart as patterns', () => {
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      properties: {
+        username: { type: 'string', format: 'alphanumeric' },
+        color: { type: 'string', format: 'hexColor' },
+        amount: { type: 'string', format: 'numeric', matchesPattern: /^1/ }
+      }
+    });
+
+    expect(jsonSchema.properties).toEqual({
+      username: { type: 'string', pattern: '^[a-zA-Z0-9]+$' },
+      color: { type: 'string', pattern: '^#?([a-fA-F0-9]{6}|[a-fA-F0-9]{3})$' },
+      amount: { type: 'string', pattern: '^-?\\d+(\\.\\d+)?$', allOf: [{ pattern: '^1' }] }
+    });
+    expect(new RegExp(jsonSchema.properties.color.pattern).test('#FF00ff')).toBe(true);
+    expect(new RegExp(jsonSchema.properties.amount.pattern).test('-12.5')).toBe(true);
+  });
+
+  test('It should express semver, ulid and cidr formats as patterns', () => {
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      properties: {
+        version: { type: 'string', format: 'semver' },
+        id: { type: 'string', format: 'ulid' },
+        range: { type: 'string', format: 'cidr' },
+        host: { type: 'string', format: 'hostname' }
+      }
+    });
+    const { version, id, range, host } = jsonSchema.properties;
+
+    expect(version.format).toBeUndefined();
+    expect(new RegExp(version.pattern).test('1.0.0-beta.1+exp.sha.5114f85')).toBe(true);
+    expect(new RegExp(version.pattern).test('01.0.0')).toBe(false);
+    expect(id.format).toBeUndefined();
+    expect(new RegExp(id.pattern).test('01arz3ndektsv4rrffq69g5fav')).toBe(true);
+    expect(new RegExp(id.pattern).test('8ZZZZZZZZZZZZZZZZZZZZZZZZZ')).toBe(false);
+    expect(range.format).toBeUndefined();
+    expect(new RegExp(range.pattern).test('192.168.0.0/16')).toBe(true);
+    expect(new RegExp(range.pattern).test('192.168.0.0')).toBe(false);
+    expect(host).toEqual({ type: 'string', format: 'hostname' });
+  });
+
+  test('It should export properties named like built-in object members', () => {
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      properties: {
+        hasOwnProperty: { type: 'string', format: 'toString' },
+        constructor: { type: 'number' }
+      }
+    } as any);
+
+    expect(jsonSchema.properties).toEqual({
+      hasOwnProperty: { type: 'string', format: 'toString' },
+      constructor: { type: 'number' }
+    });
+  });
+
+  test('It should keep custom formats as they are', () => {
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      properties: {
+        sku: { type: 'string', format: 'sku' }
+      }
+    });
+
+    expect(jsonSchema.properties.sku).toEqual({ type: 'string', format: 'sku' });
+  });
+
+  test('It should leave out validate functions and custom keywords, and report them', () => {
+    const validate = () => true;
+    const { schema: jsonSchema, unsupported } = converter.toJsonSchema({
+      properties: {
+        amount: { type: 'number', divisibleBy: 5, validate },
+        username: { type: 'string', notInList: ['admin', 'root'] }
+      }
+    });
+
+    expect(jsonSchema.properties).toEqual({
+      amount: { type: 'number' },
+      username: { type: 'string' }
+    });
+    expect(unsupported).toEqual([
+      { keyword: 'divisibleBy', path: '/properties/amount/divisibleBy', value: 5 },
+      { keyword: 'validate', path: '/properties/amount/validate', value: validate },
+      { keyword: 'notInList', path: '/properties/username/notInList', value: ['admin', 'root'] }
+    ]);
+  });
+
+  test('It should allow unknown properties that are stripped or passed through', () => {
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      properties: {
+        inside: { type: 'object', additionalProperties: 'passthrough' },
+        additionalProperties: 'strip'
+      }
+    });
+
+    expect(jsonSchema).toMatchObject({
+      additionalProperties: true,
+      properties: { inside: { type: 'object', additionalProperties: true } }
+    });
+  });
+
+  test('It should convert composition keywords, keeping patterns from formats', () => {
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      properties: {
+        id: { anyOf: [{ type: 'string', format: 'alphanumeric' }, { type: 'number' }] },
+        flag: { oneOf: [{ type: 'boolean' }, { type: 'string', enum: ['yes', 'no'] }] },
+        code: {
+          type: 'string',
+          format: 'numeric',
+          matchesPattern: /^1/,
+          allOf: [{ maxLength: 4 }],
+          not: { const: '100' }
+        }
+      }
+    });
+
+    expect(jsonSchema.properties).toEqual({
+      id: { anyOf: [{ type: 'string', pattern: '^[a-zA-Z0-9]+$' }, { type: 'number' }] },
+      flag: { oneOf: [{ type: 'boolean' }, { type: 'string', enum: ['yes', 'no'] }] },
+      code: {
+        type: 'string',
+        pattern: '^-?\\d+(\\.\\d+)?$',
+        allOf: [{ pattern: '^1' }, { maxLength: 4 }],
+        not: { const: '100' }
+      }
+    });
+  });
+
+  test('It should convert discriminators to oneOf with a const for each variant', () => {
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      properties: {
+        event: {
+          type: 'object',
+          discriminator: {
+            propertyName: 'type',
+            mapping: {
+              created: { type: 'object', total: { type: 'number' }, required: ['total'] },
+              cancelled: { type: 'object' }
+            }
+          }
+        }
+      }
+    });
+
+    expect(jsonSchema.properties.event).toEqual({
+      type: 'object',
+      oneOf: [
+        {
+          type: 'object',
+          required: ['type', 'total'],
+          properties: { total: { type: 'number' }, type: { const: 'created' } }
+        },
+        { type: 'object', required: ['type'], properties: { type: { const: 'cancelled' } } }
+      ]
+    });
+  });
+
+  test('It should convert definitions to $defs, and references to point to them', () => {
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      definitions: {
+        comment: {
+          type: 'object',
+          replies: { type: 'array', items: { $ref: '#/definitions/comment' } }
+        }
+      },
+      properties: {
+        comments: { type: 'array', items: { $ref: '#/definitions/comment' } },
+        parent: { $ref: '#' }
+      }
+    });
+
+    expect(jsonSchema).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        comments: { type: 'array', items: { $ref: '#/$defs/comment' } },
+        parent: { $ref: '#' }
+      },
+      $defs: {
+        comment: {
+          type: 'object',
+          properties: { replies: { type: 'array', items: { $ref: '#/$defs/comment' } } }
+        }
+      }
+    });
+  });
+
+  test('It should convert conditional keywords to JSON Schema', () => {
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      properties: {
+        country: { type: 'string' },
+        if: { country: { type: 'string', const: 'US' } },
+        then: { required: ['state'] },
+        dependentRequired: { country: ['state'] },
+        dependentSchemas: { state: { state: { type: 'string', minLength: 2 } } }
+      }
+    });
+
+    expect(jsonSchema).toMatchObject({
+      if: { properties: { country: { type: 'string', const: 'US' } } },
+      then: { required: ['state'] },
+      dependentRequired: { country: ['state'] },
+      dependentSchemas: { state: { properties: { state: { type: 'string', minLength: 2 } } } }
+    });
+  });
+
+  test('It should convert tuples, requiring every position', () => {
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      properties: {
+        point: {
+          type: 'array',
+          prefixItems: [{ type: 'number' }, { type: 'number' }],
+          additionalItems: false
+        },
+        row: {
+          type: 'array',
+          minLength: 1,
+          prefixItems: [{ type: 'string' }],
+          items: { type: 'number' },
+          maxLength: 3
+        }
+      }
+    });
+
+    expect(jsonSchema.properties).toEqual({
+      point: {
+        type: 'array',
+        prefixItems: [{ type: 'number' }, { type: 'number' }],
+        minItems: 2,
+        items: false
+      },
+      row: {
+        type: 'array',
+        minItems: 1,
+        prefixItems: [{ type: 'string' }],
+        items: { type: 'number' },
+        maxItems: 3
+      }
+    });
+  });
+
+  test('It should convert unique items and contains, leaving out key selectors', () => {
+    const { schema: jsonSchema, unsupported } = converter.toJsonSchema({
+      properties: {
+        tags: { type: 'array', uniqueItems: true },
+        users: { type: 'array', uniqueItems: 'id' },
+        scores: {
+          type: 'array',
+          contains: { type: 'number', minValue: 90 },
+          minContains: 2,
+          maxContains: 3
+        }
+      }
+    });
+
+    expect(jsonSchema.properties).toEqual({
+      tags: { type: 'array', uniqueItems: true },
+      users: { type: 'array' },
+      scores: {
+        type: 'array',
+        contains: { type: 'number', minimum: 90 },
+        minContains: 2,
+        maxContains: 3
+      }
+    });
+    expect(unsupported).toEqual([
+      { keyword: 'uniqueItems', path: '/properties/users/uniqueItems', value: 'id' }
+    ]);
+  });
+
+  test('It should convert integers and numeric constraints to JSON Schema', () => {
+    const { schema: jsonSchema } = converter.toJsonSchema({
+      properties: {
+        quantity: { type: 'integer', exclusiveMinValue: 0, maxValue: 100 },
+        price: { type: 'number', multipleOf: 0.01, exclusiveMaxValue: 10000 }
+      }
+    });
+
+    expect(jsonSchema.properties).toEqual({
+      quantity: { type: 'integer', exclusiveMinimum: 0, maximum: 100 },
+      price: { type: 'number', multipleOf: 0.01, exclusiveMaximum: 10000 }
+    });
+  });
+
+  test('It should convert a schema generated with schemaFrom()', () => {
+    const expected = {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        address: {
+          type: 'object',
+          properties: { street: { type: 'string', minLength: 1 } },
+          required: ['street'],
+          additionalProperties: false
+        },
+        orders: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { qty: { type: 'number' } },
+            required: ['qty'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['name', 'address', 'orders'],
+      additionalProperties: false
+    };
+
+    const schema = mikrovalid.schemaFrom({
+      name: 'Sam',
+      address: { street: 'Main Street' },
+      orders: [{ qty: 1 }]
+    });
+
+    expect(converter.toJsonSchema(schema)).toEqual({ schema: expected, unsupported: [] });
+  });
+});
+
+describe('Round-tripping JSON Schema', () => {
+  test('It should produce the same JSON Schema after importing and exporting it', () => {
+    const document = {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 2, pattern: '^[A-Z]' },
+        age: { type: ['number', 'string'], minimum: 0 },
+        email: { type: 'string', format: 'email' },
+        orders: {
+          type: 'array',
+          maxItems: 10,
+          items: {
+            type: 'object',
+            properties: {
+              sku: { type: 'string', format: 'uri' },
+              currency: { type: 'string', const: 'EUR' },
+              qty: { type: 'number', default: 1, maximum: 99 }
+            },
+            required: ['sku'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['name', 'orders'],
+      additionalProperties: false
+    };
+
+    const { schema, unsupported } = converter.fromJsonSchema(document);
+
+    expect(unsupported).toEqual([]);
+    expect(converter.toJsonSchema(schema)).toEqual({ schema: document, unsupported: [] });
+  });
+
+  test('It should produce the same schema after exporting and importing it', () => {
+    const schema = {
+      properties: {
+        name: { type: 'string', maxLength: 20, matchesPattern: /^[A-Z]/u },
+        score: { type: 'number', minValue: 1, maxValue: 10 },
+        birthday: { type: 'string', format: 'date' },
+        tags: { type: 'array', minLength: 1, items: { type: 'string' } },
+        address: {
+          type: 'object',
+          street: { type: 'string' },
+          required: ['street']
+        },
+        required: ['name']
+      }
+    };
+
+    const { schema: imported, unsupported } = converter.fromJsonSchema(
+      converter.toJsonSchema(schema).schema
+    );
+
+    expect(unsupported).toEqual([]);
+    expect(imported).toEqual(schema);
+  });
+
+  test('It should keep the meaning of formats exported as patterns', () => {
+    const { schema } = converter.fromJsonSchema(
+      converter.toJsonSchema({
+        properties: {
+          username: { type: 'string', format: 'alphanumeric' }
+        }
+      }).schema
+    );
+
+    expect(mikrovalid.test(schema as any, { username: 'Sam123' }).success).toBe(true);
+    expect(mikrovalid.test(schema as any, { username: 'Sam 123' }).success).toBe(false);
+  });
+
+  test('It should keep the meaning of the cidr format exported as a pattern', () => {
+    const original = { properties: { range: { type: 'string', format: 'cidr' } } } as const;
+    const { schema } = converter.fromJsonSchema(converter.toJsonSchema(original).schema);
+    const valid = ['10.0.0.0/8', '0.0.0.0/0', '2001:db8::/32', '::/0', '::ffff:10.0.0.0/104'];
+    const invalid = ['10.0.0.0/33', '10.0.0.0', '256.0.0.0/8', '2001:db8::/129', '1::2::3/64'];
+
+    for (const range of [...valid, ...invalid])
+      expect(mikrovalid.test(schema as any, { range }).success).toBe(
+        mikrovalid.test(original, { range }).success
+      );
+
+    expect(valid.every((range) => mikrovalid.test(schema as any, { range }).success)).toBe(true);
+    expect(invalid.some((range) => mikrovalid.test(schema as any, { range }).success)).toBe(false);
+  });
+});
+
+/**
+ * NEGATIVE TESTS
+ */
+describe('Reporting untranslatable JSON Schema keywords', () => {
+  test('It should report unsupported keywords with their location', () => {
+    const expected = [
+      { keyword: 'format', path: '/properties/id/format', value: 'duration' },
+      { keyword: 'contentEncoding', path: '/properties/id/contentEncoding', value: 'base64' },
+      {
+        keyword: 'additionalProperties',
+        path: '/properties/meta/additionalProperties',
+        value: { type: 'string' }
+      },
+      { keyword: 'items', path: '/properties/pair/items', value: [{ type: 'number' }] },
+      { keyword: 'propertyNames', path: '/propertyNames', value: { maxLength: 3 } }
+    ];
+
+    const { schema, unsupported } = converter.fromJsonSchema({
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'duration', contentEncoding: 'base64' },
+        meta: { type: 'object', additionalProperties: { type: 'string' } },
+        pair: { type: 'array', items: [{ type: 'number' }] }
+      },
+      propertyNames: { maxLength: 3 }
+    });
+
+    expect(schema).toEqual({
+      properties: {
+        id: { type: 'string' },
+        meta: { type: 'object' },
+        pair: { type: 'array', prefixItems: [{ type: 'number' }] }
+      }
+    });
+    expect(unsupported).toEqual(expected);
+  });
+
+  test('It should drop null types, and report it', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      properties: {
+        label: { type: ['string', 'null'] },
+        amount: { type: ['integer', 'null'] }
+      }
+    });
+
+    expect(schema).toEqual({
+      properties: {
+        label: { type: 'string' },
+        amount: { type: 'integer' }
+      }
+    });
+    expect(unsupported).toEqual([
+      { keyword: 'type', path: '/properties/label/type', value: ['string', 'null'] },
+      { keyword: 'type', path: '/properties/amount/type', value: ['integer', 'null'] }
+    ]);
+  });
+
+  test('It should report draft-04 boolean exclusive bounds', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      properties: {
+        price: { type: 'number', minimum: 0, exclusiveMinimum: true, exclusiveMaximum: false }
+      }
+    });
+
+    expect(schema).toEqual({ properties: { price: { type: 'number', minValue: 0 } } });
+    expect(unsupported).toEqual([
+      { keyword: 'exclusiveMinimum', path: '/properties/price/exclusiveMinimum', value: true },
+      { keyword: 'exclusiveMaximum', path: '/properties/price/exclusiveMaximum', value: false }
+    ]);
+  });
+
+  test('It should require optional tuple positions, and report it', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      properties: {
+        point: { prefixItems: [{ type: 'number' }, { type: 'number' }], minItems: 1 }
+      }
+    });
+
+    expect(schema).toEqual({
+      properties: {
+        point: {
+          type: 'array',
+          prefixItems: [{ type: 'number' }, { type: 'number' }],
+          minLength: 1
+        }
+      }
+    });
+    expect(unsupported).toEqual([
+      {
+        keyword: 'prefixItems',
+        path: '/properties/point/prefixItems',
+        value: [{ type: 'number' }, { type: 'number' }]
+      }
+    ]);
+  });
+
+  test('It should report properties whose names collide with MikroValid keywords', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      properties: {
+        type: { type: 'string' },
+        'a/b': { type: 'string', contentMediaType: 'text/plain' }
+      }
+    });
+
+    expect(schema).toEqual({ properties: { 'a/b': { type: 'string' } } });
+    expect(unsupported).toEqual([
+      { keyword: 'properties', path: '/properties/type', value: { type: 'string' } },
+      {
+        keyword: 'contentMediaType',
+        path: '/properties/a~1b/contentMediaType',
+        value: 'text/plain'
+      }
+    ]);
+  });
+
+  test('It should report keywords and formats named like built-in object members', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      type: 'object',
+      properties: {
+        constructor: { type: 'string', format: 'toString', valueOf: 1 }
+      }
+    });
+
+    expect(schema).toEqual({ properties: { constructor: { type: 'string' } } });
+    expect(unsupported).toEqual([
+      { keyword: 'format', path: '/properties/constructor/format', value: 'toString' },
+      { keyword: 'valueOf', path: '/properties/constructor/valueOf', value: 1 }
+    ]);
+  });
+
+  test('It should report patterns that are not valid regular expressions', () => {
+    const { schema, unsupported } = converter.fromJsonSchema({
+      type: 'object',
+      properties: {
+        code: { type: 'string', pattern: '^[a-z' },
+        id: { type: 'string', pattern: '^\\-\\d+$' }
+      }
+    });
+
+    expect(schema).toEqual({ properties: { code: { type: 'string' }, id: { type: 'string' } } });
+    expect(unsupported).toEqual([
+      { keyword: 'pattern', path: '/properties/code/pattern', value: '^[a-z' },
+      { keyword: 'pattern', path: '/properties/id/pattern', value: '^\\-\\d+$' }
+    ]);
+  });
+
+  test('It should report pattern flags and error messages that cannot be exported', () => {
+    const { schema, unsupported } = converter.toJsonSchema({
+      properties: {
+        code: { type: 'string', matchesPattern: /^[a-z]+$/i, errorMessage: 'Invalid code' },
+        slug: { type: 'string', matchesPattern: /^[a-z-]+$/gu },
+        tags: {
+          type: 'array',
+          items: { type: 'string', validate: (value: string) => value !== 'admin' }
+        }
+      },
+      definitions: { id: { type: 'string', uniqueItems: (id: string) => id.toLowerCase() } }
+    } as any);
+
+    expect(schema.properties.code).toEqual({ type: 'string', pattern: '^[a-z]+$' });
+    expect(schema.properties.slug).toEqual({ type: 'string', pattern: '^[a-z-]+$' });
+    expect(unsupported).toMatchObject([
+      { keyword: 'matchesPattern', path: '/properties/code/matchesPattern', value: /^[a-z]+$/i },
+      { keyword: 'errorMessage', path: '/properties/code/errorMessage', value: 'Invalid code' },
+      { keyword: 'validate', path: '/properties/tags/items/validate' },
+      { keyword: 'uniqueItems', path: '/definitions/id/uniqueItems' }
+    ]);
+  });
+
+  test('It should report boolean "false" schemas and non-object roots', () => {
+    const { unsupported } = converter.fromJsonSchema({
+      type: 'string',
+      properties: {
+        anything: true,
+        nothing: false
+      }
+    });
+
+    expect(unsupported).toEqual([
+      { keyword: 'false', path: '/properties/nothing', value: false },
+      { keyword: 'type', path: '/type', value: 'string' }
+    ]);
+  });
+});
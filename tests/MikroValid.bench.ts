@@ -0,0 +1,50 @@
+import { bench, describe } from 'vitest';
+import { MikroValid as BaselineMikroValid } from 'mikrovalid-baseline';
+
+import { MikroValid } from '../src/domain/MikroValid.js';
+
+const mikrovalid = new MikroValid(true);
+const baseline = new BaselineMikroValid(true);
+
+// Both versions do the same work for this schema, since 1.0.23 doesn't validate array items
+const schema = {
+  properties: {
+    id: { type: 'string', format: 'alphanumeric' },
+    event: { type: 'string', matchesPattern: /^[a-z]+\.[a-z]+$/ },
+    timestamp: { type: 'number', minValue: 1 },
+    source: {
+      type: 'object',
+      url: { type: 'string', format: 'url' },
+      email: { type: 'string', format: 'email' },
+      required: ['url']
+    },
+    tags: { type: 'array', minLength: 1, maxLength: 10 },
+    required: ['id', 'event', 'timestamp', 'source'],
+    additionalProperties: false
+  }
+} as const;
+
+const input = {
+  id: 'abc123',
+  event: 'order.created',
+  timestamp: 1700000000000,
+  source: { url: 'https://shop.company.com', email: 'orders@company.com' },
+  tags: ['priority', 'gift']
+};
+
+const validate = mikrovalid.compile(schema);
+
+describe('Validating an event', () => {
+  bench('test() in 1.0.23', () => {
+    // The types of 1.0.23 don't accept readonly arrays, such as `required` in a const schema
+    baseline.test(schema as any, input);
+  });
+
+  bench('test()', () => {
+    mikrovalid.test(schema, input);
+  });
+
+  bench('compile()', () => {
+    validate(input);
+  });
+});
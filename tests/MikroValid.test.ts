@@ -1,7 +1,13 @@
-import { describe, it, test, expect } from 'vitest';
+import { describe, it, test, expect, expectTypeOf } from 'vitest';
 
 import { MikroValid } from '../src/domain/MikroValid.js';
-import { ValidationTypes } from '../src/interfaces/MikroValid.js';
+import { ValidationException } from '../src/errors/ValidationException.js';
+import {
+  Infer,
+  ValidationContext,
+  ValidationFormat,
+  ValidationTypes
+} from '../src/interfaces/MikroValid.js';
 
 const mikrovalid = new MikroValid(true);
 
@@ -72,6 +78,23 @@ describe('Settings', () => {
       console.warn = originalWarn;
     }
   });
+  test('It should emit a warning for a property without a definition', () => {
+    let warning = '';
+    const originalWarn = console.warn;
+
+    try {
+      console.warn = (message: string) => (warning = message);
+
+      const { success } = new MikroValid(false).test({ properties: { name: null } } as any, {
+        name: 'Sam'
+      });
+
+      expect(success).toBe(true);
+      expect(warning).toBe(`Missing definition for property 'name'. Skipping...`);
+    } finally {
+      console.warn = originalWarn;
+    }
+  });
 });
 
 describe('String validation', () => {
@@ -209,6 +232,107 @@ describe('Numeric validation', () => {
   });
 });
 
+describe('Numeric constraints', () => {
+  test('It should validate integers', () => {
+    const schema = { properties: { quantity: { type: 'integer' } } } as const;
+
+    expect(mikrovalid.test(schema, { quantity: 3 }).success).toBe(true);
+    expect(mikrovalid.test(schema, { quantity: -3 }).success).toBe(true);
+    expect(mikrovalid.test(schema, { quantity: 3.0 }).success).toBe(true);
+    expect(mikrovalid.test(schema, { quantity: 3.5 }).success).toBe(false);
+    expect(mikrovalid.test(schema, { quantity: '3' }).success).toBe(false);
+    expect(mikrovalid.test(schema, { quantity: Infinity }).success).toBe(false);
+  });
+
+  test('It should reject infinite numbers', () => {
+    const schema = { properties: { amount: { type: 'number' } } } as const;
+
+    expect(mikrovalid.test(schema, { amount: Infinity }).errors).toMatchObject([
+      { key: 'amount', code: 'type' }
+    ]);
+    expect(mikrovalid.test(schema, { amount: -Infinity }).success).toBe(false);
+  });
+
+  test('It should enforce bounds of zero', () => {
+    const schema = {
+      properties: {
+        balance: { type: 'number', minValue: 0 },
+        debt: { type: 'number', maxValue: 0 },
+        note: { type: 'string', maxLength: 0 }
+      }
+    } as const;
+
+    expect(mikrovalid.test(schema, { balance: 0, debt: 0, note: '' }).success).toBe(true);
+    expect(
+      mikrovalid.test(schema, { balance: -1, debt: 1, note: 'x' }).errors.map(({ code }) => code)
+    ).toEqual(['minValue', 'maxValue', 'maxLength']);
+  });
+
+  test('It should validate exclusive bounds', () => {
+    const schema = {
+      properties: {
+        price: { type: 'number', exclusiveMinValue: 0, exclusiveMaxValue: 100 }
+      }
+    } as const;
+
+    expect(mikrovalid.test(schema, { price: 0.01 }).success).toBe(true);
+    expect(mikrovalid.test(schema, { price: 99.99 }).success).toBe(true);
+    expect(mikrovalid.test(schema, { price: 0 }).errors).toEqual([
+      {
+        key: 'price',
+        value: 0,
+        success: false,
+        error: 'Value too small',
+        code: 'exclusiveMinValue',
+        params: { min: 0 },
+        instancePath: '/price',
+        schemaPath: '/properties/price/exclusiveMinValue'
+      }
+    ]);
+    expect(mikrovalid.test(schema, { price: 100 }).errors).toMatchObject([
+      { error: 'Value too large', code: 'exclusiveMaxValue', params: { max: 100 } }
+    ]);
+  });
+
+  test('It should validate multiples without floating-point errors', () => {
+    const money = { properties: { amount: { type: 'number', multipleOf: 0.01 } } } as const;
+    const tenths = { properties: { amount: { type: 'number', multipleOf: 0.1 } } } as const;
+
+    for (const amount of [0, 0.07, 1.1, 19.99, 1234567.89, -0.3])
+      expect(mikrovalid.test(money, { amount }).success).toBe(true);
+    for (const amount of [0.3, 0.7, 2.2])
+      expect(mikrovalid.test(tenths, { amount }).success).toBe(true);
+
+    expect(mikrovalid.test(money, { amount: 19.999 }).errors).toMatchObject([
+      {
+        error: 'Value must be a multiple of 0.01',
+        code: 'multipleOf',
+        params: { multipleOf: 0.01 }
+      }
+    ]);
+    expect(mikrovalid.test(tenths, { amount: 0.35 }).success).toBe(false);
+  });
+
+  test('It should validate multiples of integers and very small or large numbers', () => {
+    const test = (multipleOf: number, amount: number) =>
+      mikrovalid.test({ properties: { amount: { type: 'number', multipleOf } } }, { amount })
+        .success;
+
+    expect(test(5, 25)).toBe(true);
+    expect(test(5, 26)).toBe(false);
+    expect(test(1e-7, 3e-7)).toBe(true);
+    expect(test(1e-7, 3.5e-7)).toBe(false);
+    expect(test(0.5, 1e21)).toBe(true);
+  });
+
+  test('It should coerce strings to integers', () => {
+    const schema = { properties: { page: { type: 'integer' } } } as const;
+
+    expect(mikrovalid.test(schema, { page: '2' }, { coerce: true }).data).toEqual({ page: 2 });
+    expect(mikrovalid.test(schema, { page: '2.5' }, { coerce: true }).success).toBe(false);
+  });
+});
+
 describe('Array validation', () => {
   test('It should validate an array', () => {
     const expected = true;
@@ -328,6 +452,142 @@ describe('Array validation', () => {
 
     expect(success).toMatchObject(expected);
   });
+
+  test('It should validate an array containing objects with a nested schema', () => {
+    const expected = true;
+    const { success } = mikrovalid.test(
+      {
+        properties: {
+          orders: {
+            type: 'array',
+            items: {
+              type: 'object',
+              sku: { type: 'string', format: 'alphanumeric' },
+              qty: { type: 'number', minValue: 1 },
+              required: ['sku', 'qty'],
+              additionalProperties: false
+            }
+          }
+        }
+      },
+      {
+        orders: [
+          { sku: 'ABC123', qty: 1 },
+          { sku: 'DEF456', qty: 3 }
+        ]
+      }
+    );
+
+    expect(success).toBe(expected);
+  });
+
+  test('It should invalidate array elements against a nested schema and report each element index', () => {
+    const expected = [
+      {
+        key: 'orders[1].qty',
+        value: { sku: 'DEF456' },
+        success: false,
+        error: "Missing the required key: 'qty'!",
+        instancePath: '/orders/1/qty'
+      },
+      {
+        key: 'orders[2].discount',
+        value: 10,
+        success: false,
+        error: "Has additional (disallowed) properties: 'discount'!",
+        instancePath: '/orders/2/discount'
+      },
+      { key: 'orders[0].sku', value: 'ABC-123', success: false, error: 'Invalid format' },
+      { key: 'orders[2].qty', value: '0', success: false, error: 'Invalid type' }
+    ];
+
+    const { success, errors } = mikrovalid.test(
+      {
+        properties: {
+          orders: {
+            type: 'array',
+            items: {
+              type: 'object',
+              sku: { type: 'string', format: 'alphanumeric' },
+              qty: { type: 'number' },
+              required: ['sku', 'qty'],
+              additionalProperties: false
+            }
+          }
+        }
+      },
+      {
+        orders: [
+          { sku: 'ABC-123', qty: 1 },
+          { sku: 'DEF456' },
+          { sku: 'GHI789', qty: '0', discount: 10 }
+        ]
+      }
+    );
+
+    expect(success).toBe(false);
+    expect(errors).toMatchObject(expected);
+  });
+
+  test('It should report errors for the elements themselves at their index', () => {
+    const { errors } = mikrovalid.test(
+      {
+        properties: {
+          tags: { type: 'array', items: { type: 'string', minLength: 2 } },
+          matrix: { type: 'array', items: { type: 'array', items: { type: 'number' } } }
+        }
+      },
+      { tags: ['ab', 123, 'c'], matrix: [[1], [2, 'x']] }
+    );
+
+    expect(errors.map(({ key, instancePath, error }) => ({ key, instancePath, error }))).toEqual([
+      { key: 'tags[1]', instancePath: '/tags/1', error: 'Invalid type' },
+      { key: 'tags[2]', instancePath: '/tags/2', error: 'Length too short' },
+      { key: 'matrix[1][1]', instancePath: '/matrix/1/1', error: 'Invalid type' }
+    ]);
+  });
+
+  test('It should validate objects nested inside array elements', () => {
+    const expected = [
+      {
+        key: 'orders[0].customer.email',
+        value: 'sam@',
+        success: false,
+        error: 'Invalid format'
+      },
+      { key: 'orders[0].lines[1].qty', value: -1, success: false, error: 'Value too small' }
+    ];
+
+    const { success, errors } = mikrovalid.test(
+      {
+        properties: {
+          orders: {
+            type: 'array',
+            items: {
+              type: 'object',
+              customer: {
+                type: 'object',
+                email: { type: 'string', format: 'email' }
+              },
+              lines: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  qty: { type: 'number', minValue: 1 }
+                }
+              }
+            }
+          }
+        }
+      },
+      {
+        orders: [{ customer: { email: 'sam@' }, lines: [{ qty: 2 }, { qty: -1 }] }]
+      }
+    );
+
+    expect(success).toBe(false);
+    expect(errors).toMatchObject(expected);
+  });
 });
 
 describe('Object validation', () => {
@@ -370,6 +630,37 @@ describe('Object validation', () => {
 
     expect(success).toMatchObject(expected);
   });
+
+  test('It should validate properties named like built-in object members', () => {
+    const schema = {
+      properties: {
+        toString: { type: 'number' },
+        constructor: { type: 'string' },
+        hasOwnProperty: { type: 'boolean' },
+        additionalProperties: false
+      }
+    } as const;
+
+    expect(mikrovalid.test(schema, { toString: 1, constructor: 'Sam' }).success).toBe(true);
+    expect(mikrovalid.test(schema, {}).success).toBe(true);
+    expect(
+      mikrovalid.test(schema, { toString: 'abc', constructor: 1, hasOwnProperty: 'yes' }).errors
+    ).toMatchObject([
+      { key: 'toString', error: 'Invalid type' },
+      { key: 'constructor', error: 'Invalid type' },
+      { key: 'hasOwnProperty', error: 'Invalid type' }
+    ]);
+  });
+
+  test('It should not use built-in object members as formats', () => {
+    const { success } = mikrovalid.test(
+      // @ts-expect-error - toString is not a format
+      { properties: { name: { type: 'string', format: 'toString' } } },
+      { name: 'Sam' }
+    );
+
+    expect(success).toBe(false);
+  });
 });
 
 describe('Optional handling', () => {
@@ -560,10 +851,11 @@ describe('Multiple invalidation', () => {
   test('It should invalidate multiple errors separately', () => {
     const expected = [
       {
-        key: '',
+        key: 'box.second',
         value: { first: 1, third: 3 },
         success: false,
-        error: "Missing the required key: 'second'!"
+        error: "Missing the required key: 'second'!",
+        instancePath: '/box/second'
       },
       { key: 'box.first', value: 1, success: false, error: 'Invalid type' },
       { key: 'box.third', value: 3, success: false, error: 'Invalid type' }
@@ -647,8 +939,14 @@ describe('Other handling', () => {
     const expected = [
       { key: 'age', value: '26', success: false, error: 'Invalid type' },
       { key: 'preferences.doodad', value: {}, success: false, error: 'Invalid type' },
-      { key: 'preferences.things', value: 1, success: false, error: 'Invalid type' },
-      { key: 'preferences.things', value: 3, success: false, error: 'Invalid type' },
+      {
+        key: 'preferences.things',
+        value: [1, '2', 3],
+        success: false,
+        error: 'Length too short'
+      },
+      { key: 'preferences.things[0]', value: 1, success: false, error: 'Invalid type' },
+      { key: 'preferences.things[2]', value: 3, success: false, error: 'Invalid type' },
       {
         key: 'details.name.fullName',
         value: 'Sam',
@@ -792,9 +1090,12 @@ describe('Other handling', () => {
     const { success, errors } = mikrovalid.test(schema as any, inputItem);
 
     expect(success).toBe(false);
-    expect(errors[0].error).toBe(
-      "Missing values for required keys: 'domain, error, service, system, version'!"
-    );
+    expect(errors.map(({ key, error }) => ({ key, error }))).toEqual([
+      { key: 'domain', error: "Missing values for required keys: 'domain'!" },
+      { key: 'system', error: "Missing values for required keys: 'system'!" },
+      { key: 'service', error: "Missing values for required keys: 'service'!" },
+      { key: 'version', error: "Missing values for required keys: 'version'!" }
+    ]);
   });
 
   test('It should not treat 0 (zero) as an undefined value for a required key', () => {
@@ -938,8 +1239,6 @@ describe('Number validation tests', () => {
   const inputs = [
     -1,
     1,
-    Infinity,
-    -Infinity,
     0.1,
     2.0,
     Number.MAX_SAFE_INTEGER,
@@ -972,6 +1271,8 @@ describe('Number validation tests', () => {
 describe('Number invalidation tests', () => {
   const inputs = [
     'string',
+    Infinity,
+    -Infinity,
     new Date(),
     new Set(),
     new Map(),
@@ -1383,99 +1684,2871 @@ describe('Format handling', () => {
   });
 });
 
-/**
- * COMPONENTS AND MORE COMPLEX OBJECTS
- */
+describe('Network and identifier formats', () => {
+  const formats: Record<string, { valid: string[]; invalid: string[] }> = {
+    uuid: {
+      valid: [
+        '9b2f6c1e-4d3a-4f8b-9c2d-1e5f7a8b9c0d',
+        '018f3c5e-7a2b-7c4d-8e9f-0a1b2c3d4e5f',
+        '6BA7B810-9DAD-11D1-80B4-00C04FD430C8',
+        '00000000-0000-0000-0000-000000000000',
+        'ffffffff-ffff-ffff-ffff-ffffffffffff'
+      ],
+      invalid: [
+        '9b2f6c1e-4d3a-4f8b-7c2d-1e5f7a8b9c0d',
+        '9b2f6c1e-4d3a-0f8b-9c2d-1e5f7a8b9c0d',
+        '9b2f6c1e4d3a4f8b9c2d1e5f7a8b9c0d',
+        '{9b2f6c1e-4d3a-4f8b-9c2d-1e5f7a8b9c0d}',
+        '9b2f6c1e-4d3a-4f8b-9c2d-1e5f7a8b9c0g'
+      ]
+    },
+    ulid: {
+      valid: [
+        '01ARZ3NDEKTSV4RRFFQ69G5FAV',
+        '7ZZZZZZZZZZZZZZZZZZZZZZZZZ',
+        '01arz3ndektsv4rrffq69g5fav'
+      ],
+      invalid: [
+        '8ZZZZZZZZZZZZZZZZZZZZZZZZZ',
+        '01ARZ3NDEKTSV4RRFFQ69G5FA',
+        '01ARZ3NDEKTSV4RRFFQ69G5FAI'
+      ]
+    },
+    ipv4: {
+      valid: ['0.0.0.0', '127.0.0.1', '192.168.1.255', '255.255.255.255'],
+      invalid: ['256.0.0.1', '192.168.01.1', '1.2.3', '1.2.3.4.5', '1.2.3.4 ', '::1']
+    },
+    ipv6: {
+      valid: [
+        '2001:0db8:85a3:0000:0000:8a2e:0370:7334',
+        '2001:db8::1',
+        '::',
+        '::1',
+        'fe80::',
+        'FE80::1:2:3:4:5:6',
+        '::ffff:192.168.0.1',
+        '64:ff9b::192.0.2.33',
+        '1:2:3:4:5:6:1.2.3.4'
+      ],
+      invalid: [
+        '1:2:3:4:5:6:7:8:9',
+        '1:2:3:4:5:6:7',
+        '1:2:3:4::5:6:7:8',
+        '1:::2',
+        '1::2::3',
+        ':1:2:3:4:5:6:7',
+        '1:2:3:4:5:6:7:',
+        '12345::1',
+        'fe80::1%eth0',
+        '::ffff:256.0.0.1',
+        '1:2:3:4:5:6:7:1.2.3.4',
+        '1.2.3.4'
+      ]
+    },
+    cidr: {
+      valid: ['10.0.0.0/8', '0.0.0.0/0', '192.168.1.1/32', '2001:db8::/32', '::/0', '::1/128'],
+      invalid: [
+        '10.0.0.0',
+        '10.0.0.0/33',
+        '10.0.0.0/08',
+        '::1/129',
+        '10.0.0.0/8/8',
+        '/24',
+        '10.0.0.0/'
+      ]
+    },
+    hostname: {
+      valid: [
+        'localhost',
+        'example.com',
+        'my-host.example.co.uk',
+        'xn--bcher-kva.example',
+        `${'a'.repeat(63)}.com`
+      ],
+      invalid: [
+        '-example.com',
+        'example-.com',
+        'exa_mple.com',
+        'example..com',
+        `${'a'.repeat(64)}.com`,
+        `${'a.'.repeat(127)}ab`
+      ]
+    },
+    semver: {
+      valid: [
+        '0.0.0',
+        '1.2.3',
+        '10.20.30',
+        '1.0.0-alpha',
+        '1.0.0-alpha.1',
+        '1.0.0-0.3.7',
+        '1.0.0+20130313144700',
+        '1.0.0-beta+exp.sha.5114f85'
+      ],
+      invalid: ['1.2', '01.2.3', '1.2.3-01', '1.2.3-', '1.2.3+', 'v1.2.3', '1.2.3.4']
+    }
+  };
+
+  Object.entries(formats).forEach(([format, { valid, invalid }]) => {
+    valid.forEach((input) => {
+      it(`It should validate a string that has a ${format} format: ${input}`, () => {
+        const { success } = mikrovalid.test(
+          { properties: { value: { type: 'string', format: format as ValidationFormat } } },
+          { value: input }
+        );
+
+        expect(success).toBe(true);
+      });
+    });
 
-describe('Complex objects', () => {
-  test('It should validate a Flow Component', () => {
-    const expected = true;
-    const { success } = mikrovalid.test(
+    invalid.forEach((input) => {
+      it(`It should invalidate a string that does not have a ${format} format: ${input}`, () => {
+        const { success, errors } = mikrovalid.test(
+          { properties: { value: { type: 'string', format: format as ValidationFormat } } },
+          { value: input }
+        );
+
+        expect(success).toBe(false);
+        expect(errors).toMatchObject([{ key: 'value', error: 'Invalid format', code: 'format' }]);
+      });
+    });
+  });
+});
+
+describe('Custom formats', () => {
+  test('It should validate a string against a custom format using a regular expression', () => {
+    const validator = new MikroValid(true).registerFormat('sku', /^[A-Z]{3}-\d{4}$/);
+    const schema = { properties: { sku: { type: 'string', format: 'sku' } } } as const;
+
+    expect(validator.test(schema, { sku: 'ABC-1234' }).success).toBe(true);
+    expect(validator.test(schema, { sku: 'abc-1234' }).errors).toMatchObject([
+      { key: 'sku', value: 'abc-1234', success: false, error: 'Invalid format' }
+    ]);
+  });
+
+  test('It should validate a string against a custom format using a function', () => {
+    const validator = new MikroValid(true).registerFormat(
+      'tenantSlug',
+      (value: string) => value === value.toLowerCase() && !value.includes(' ')
+    );
+    const schema = { properties: { tenant: { type: 'string', format: 'tenantSlug' } } } as const;
+
+    expect(validator.test(schema, { tenant: 'acme-corp' }).success).toBe(true);
+    expect(validator.test(schema, { tenant: 'Acme Corp' }).success).toBe(false);
+  });
+
+  test('It should use regular expressions with the global flag consistently', () => {
+    const validator = new MikroValid(true).registerFormat('orderId', /^ORD-\d+$/g);
+    const schema = { properties: { id: { type: 'string', format: 'orderId' } } } as const;
+
+    expect(validator.test(schema, { id: 'ORD-1' }).success).toBe(true);
+    expect(validator.test(schema, { id: 'ORD-2' }).success).toBe(true);
+  });
+
+  test('It should support multiple custom formats and keep the built-in formats', () => {
+    const validator = new MikroValid(true)
+      .registerFormat('sku', /^[A-Z]{3}-\d{4}$/)
+      .registerFormat('orderId', (value: string) => value.startsWith('ORD-'));
+
+    const { success } = validator.test(
       {
         properties: {
-          component: {
-            type: 'string',
-            matchesPattern: /^(function|queue|storage|event)$/
-          },
-          memory: {
-            type: 'number',
-            minValue: 128,
-            maxValue: 3008
-          },
-          architecture: {
-            type: 'string',
-            matchesPattern: /^(arm|x86)$/
-          },
-          runtime: {
-            type: 'string',
-            matchesPattern: /^(nodejs20|python3\.7)$/
-          },
-          code: {
-            type: 'string'
-          },
-          required: ['component', 'memory', 'architecture', 'runtime', 'code']
+          orders: {
+            type: 'array',
+            items: {
+              type: 'object',
+              id: { type: 'string', format: 'orderId' },
+              sku: { type: 'string', format: 'sku' },
+              email: { type: 'string', format: 'email' }
+            }
+          }
         }
       },
-      {
-        component: 'function',
-        memory: 512,
-        architecture: 'arm',
-        runtime: 'nodejs20',
-        code: "export async function handler(event, context) { return { statusCode: 200, body: JSON.stringify('Hello world!') } }"
-      }
+      { orders: [{ id: 'ORD-1', sku: 'ABC-1234', email: 'sam@person.xyz' }] }
     );
 
-    expect(success).toMatchObject(expected);
+    expect(success).toBe(true);
   });
 
-  test('It should validate an App Component', () => {
-    const expected = true;
+  test('It should keep custom formats to the instance they were registered on', () => {
+    new MikroValid(true).registerFormat('sku', /^[A-Z]{3}-\d{4}$/);
+
     const { success } = mikrovalid.test(
+      // @ts-expect-error - the format is not registered on this instance
+      { properties: { sku: { type: 'string', format: 'sku' } } },
+      { sku: 'ABC-1234' }
+    );
+
+    expect(success).toBe(false);
+  });
+});
+
+describe('Custom keywords', () => {
+  const validator = new MikroValid(true)
+    .registerKeyword('divisibleBy', {
+      validator: (value: number, divisor: number) => value % divisor === 0,
+      error: 'Value is not divisible'
+    })
+    .registerKeyword('notInList', {
+      validator: (value: string, list: string[]) => !list.includes(value),
+      error: 'Value is not allowed'
+    });
+
+  test('It should validate values using custom keywords', () => {
+    const { success } = validator.test(
       {
         properties: {
-          component: {
-            type: 'string',
-            matchesPattern: /^(list|button|text|image|dropdown)$/
-          },
-          name: {
-            type: 'string',
-            minLength: 3,
-            maxLength: 50
-          },
-          imageSource: {
-            type: 'string',
-            matchesPattern: /^(online|local)$/
-          },
-          url: {
-            type: 'string',
-            minLength: 5,
-            maxLength: 120
-          },
-          altText: {
-            type: 'string',
-            minLength: 1,
-            maxLength: 200
-          },
-          required: ['component', 'name', 'imageSource', 'url', 'altText']
+          amount: { type: 'number', divisibleBy: 5 },
+          username: { type: 'string', notInList: ['admin', 'root'] }
         }
       },
-      {
-        component: 'image',
-        name: 'My image',
-        imageSource: 'online',
-        url: 'https://something.online.com/alkfjo3iu3.jpg',
-        altText: 'A picture of something'
-      }
+      { amount: 25, username: 'sam' }
     );
 
-    expect(success).toMatchObject(expected);
+    expect(success).toBe(true);
   });
-});
 
-describe('Demo', () => {
-  test('It should work with the demo example', () => {
-    const { success } = mikrovalid.test(
-      {
+  test('It should invalidate values using custom keywords and report their error messages', () => {
+    const expected = [
+      { key: 'amount', value: 26, success: false, error: 'Value is not divisible' },
+      { key: 'users[1].username', value: 'root', success: false, error: 'Value is not allowed' }
+    ];
+
+    const { success, errors } = validator.test(
+      {
+        properties: {
+          amount: { type: 'number', divisibleBy: 5 },
+          users: {
+            type: 'array',
+            items: {
+              type: 'object',
+              username: { type: 'string', notInList: ['admin', 'root'] },
+              additionalProperties: false
+            }
+          }
+        }
+      },
+      { amount: 26, users: [{ username: 'sam' }, { username: 'root' }] }
+    );
+
+    expect(success).toBe(false);
+    expect(errors).toMatchObject(expected);
+  });
+
+  test('It should pass the validation context to custom keywords', () => {
+    const contexts: ValidationContext[] = [];
+    const input = { order: { currency: 'EUR', amounts: [10] } };
+
+    new MikroValid(true)
+      .registerKeyword('spy', {
+        validator: (_value: unknown, _keywordValue: boolean, context: ValidationContext) =>
+          contexts.push(context) > 0,
+        error: 'Never happens'
+      })
+      .test(
+        {
+          properties: {
+            order: {
+              type: 'object',
+              currency: { type: 'string', spy: true },
+              amounts: { type: 'array', items: { type: 'number', spy: true } }
+            }
+          }
+        },
+        input
+      );
+
+    expect(contexts).toEqual([
+      { key: 'order.currency', instancePath: '/order/currency', parent: input.order, root: input },
+      {
+        key: 'order.amounts[0]',
+        instancePath: '/order/amounts/0',
+        parent: input.order.amounts,
+        root: input
+      }
+    ]);
+  });
+
+  test('It should not allow registering a built-in keyword', () => {
+    expect(() =>
+      new MikroValid(true).registerKeyword('minLength', { validator: () => true, error: '' })
+    ).toThrow("Cannot register the built-in keyword 'minLength'!");
+  });
+
+  test('It should not treat custom keywords as properties', () => {
+    const schema = {
+      properties: {
+        amount: { type: 'number', divisibleBy: 5, additionalProperties: false },
+        required: ['amount']
+      }
+    } as const;
+
+    expectTypeOf<Infer<typeof schema>>().toEqualTypeOf<{ amount: number }>();
+    expect(validator.test(schema, { amount: 10 }).success).toBe(true);
+  });
+});
+
+describe('Validate functions', () => {
+  test('It should validate a value with a validate function', () => {
+    const { success } = mikrovalid.test(
+      {
+        properties: {
+          password: {
+            type: 'string',
+            validate: (value: string) => /\d/.test(value)
+          }
+        }
+      },
+      { password: 'secret1' }
+    );
+
+    expect(success).toBe(true);
+  });
+
+  test('It should use a returned string as the error message', () => {
+    const expected = [
+      {
+        key: 'password',
+        value: 'secret',
+        success: false,
+        error: 'Password must contain a number'
+      }
+    ];
+
+    const { errors } = mikrovalid.test(
+      {
+        properties: {
+          password: {
+            type: 'string',
+            validate: (value: string) => /\d/.test(value) || 'Password must contain a number'
+          }
+        }
+      },
+      { password: 'secret' }
+    );
+
+    expect(errors).toMatchObject(expected);
+  });
+
+  test('It should use a default error message when the validate function returns false', () => {
+    const { errors } = mikrovalid.test(
+      {
+        properties: {
+          score: { type: 'number', validate: () => false }
+        }
+      },
+      { score: 1 }
+    );
+
+    expect(errors).toMatchObject([{ key: 'score', error: 'Custom validation failed' }]);
+  });
+
+  test('It should give the validate function access to the rest of the input', () => {
+    const schema = {
+      properties: {
+        period: {
+          type: 'object',
+          start: { type: 'string', format: 'date' },
+          end: {
+            type: 'string',
+            format: 'date',
+            validate: (value: string, context: ValidationContext) =>
+              value >= (context.parent as Record<string, any>).start ||
+              'End must not be before start'
+          }
+        },
+        confirmEmail: {
+          type: 'string',
+          validate: (value: string, context: ValidationContext) =>
+            value === context.root.email || 'Emails do not match'
+        }
+      }
+    } as const;
+
+    const valid = mikrovalid.test(schema, {
+      period: { start: '2024-01-01', end: '2024-02-01' },
+      email: 'sam@person.xyz',
+      confirmEmail: 'sam@person.xyz'
+    });
+    const invalid = mikrovalid.test(schema, {
+      period: { start: '2024-01-01', end: '2023-12-31' },
+      email: 'sam@person.xyz',
+      confirmEmail: 'sam@person.abc'
+    });
+
+    expect(valid.success).toBe(true);
+    expect(invalid.errors).toMatchObject([
+      { key: 'period.end', error: 'End must not be before start' },
+      { key: 'confirmEmail', error: 'Emails do not match' }
+    ]);
+  });
+});
+
+describe('Asynchronous validation', () => {
+  const takenUsernames = ['sam', 'admin'];
+  const coupons = ['SUMMER', 'WINTER'];
+
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const validator = new MikroValid(true).registerKeyword('unique', {
+    validator: async (value: string) => {
+      await wait(10);
+      return !takenUsernames.includes(value);
+    },
+    error: 'Username is already taken'
+  });
+
+  const schema = {
+    properties: {
+      username: { type: 'string', unique: true },
+      coupon: {
+        type: 'string',
+        validate: async (value: string) => {
+          await wait(10);
+          return coupons.includes(value) || `Unknown coupon '${value}'`;
+        }
+      },
+      age: { type: 'number' }
+    }
+  } as const;
+
+  test('It should validate an input with asynchronous validators', async () => {
+    const { success, errors } = await validator.testAsync(schema, {
+      username: 'alex',
+      coupon: 'SUMMER'
+    });
+
+    expect(success).toBe(true);
+    expect(errors).toEqual([]);
+  });
+
+  test('It should invalidate an input with asynchronous validators in the same shape and order as test()', async () => {
+    const expected = [
+      {
+        key: 'username',
+        value: 'sam',
+        success: false,
+        error: 'Username is already taken',
+        code: 'unique',
+        params: { unique: true },
+        instancePath: '/username',
+        schemaPath: '/properties/username/unique'
+      },
+      {
+        key: 'coupon',
+        value: 'SPRING',
+        success: false,
+        error: "Unknown coupon 'SPRING'",
+        code: 'validate',
+        params: {},
+        instancePath: '/coupon',
+        schemaPath: '/properties/coupon/validate'
+      },
+      {
+        key: 'age',
+        value: '42',
+        success: false,
+        error: 'Invalid type',
+        code: 'type',
+        params: { type: 'number', actual: 'string' },
+        instancePath: '/age',
+        schemaPath: '/properties/age/type'
+      }
+    ];
+
+    const { success, errors } = await validator.testAsync(schema, {
+      username: 'sam',
+      coupon: 'SPRING',
+      age: '42'
+    });
+
+    expect(success).toBe(false);
+    expect(errors).toEqual(expected);
+  });
+
+  test('It should run asynchronous validators concurrently', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const concurrent = new MikroValid(true).registerKeyword('slow', {
+      validator: async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await wait(10);
+        running--;
+        return true;
+      },
+      error: 'Never happens'
+    });
+
+    const { success } = await concurrent.testAsync(
+      {
+        properties: {
+          tags: { type: 'array', items: { type: 'string', slow: true } }
+        }
+      },
+      { tags: ['a', 'b', 'c', 'd'] }
+    );
+
+    expect(success).toBe(true);
+    expect(maxRunning).toBe(4);
+  });
+
+  test('It should support synchronous validators as well', async () => {
+    const { success } = await mikrovalid.testAsync(
+      { properties: { name: { type: 'string', minLength: 5 } } },
+      { name: 'Sam' }
+    );
+
+    expect(success).toBe(false);
+  });
+
+  test('It should abort the validation after a timeout', async () => {
+    const slow = new MikroValid(true).registerKeyword('slow', {
+      validator: () => wait(100).then(() => true),
+      error: 'Never happens'
+    });
+
+    await expect(
+      slow.testAsync(
+        { properties: { name: { type: 'string', slow: true } } },
+        { name: 'Sam' },
+        {
+          timeout: 10
+        }
+      )
+    ).rejects.toThrow('Validation timed out after 10 ms!');
+  });
+
+  test('It should abort the validation with an abort signal', async () => {
+    const controller = new AbortController();
+    let signal: AbortSignal | undefined;
+
+    const slow = new MikroValid(true).registerKeyword('slow', {
+      validator: (_value: string, _keywordValue: boolean, context: ValidationContext) => {
+        signal = context.signal;
+        return wait(100).then(() => true);
+      },
+      error: 'Never happens'
+    });
+
+    const result = slow.testAsync(
+      { properties: { name: { type: 'string', slow: true } } },
+      { name: 'Sam' },
+      { signal: controller.signal }
+    );
+
+    controller.abort(new Error('Cancelled'));
+
+    await expect(result).rejects.toThrow('Cancelled');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  test('It should not start validating if the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('Cancelled'));
+
+    await expect(
+      mikrovalid.testAsync(
+        { properties: { name: { type: 'string' } } },
+        { name: 'Sam' },
+        {
+          signal: controller.signal
+        }
+      )
+    ).rejects.toThrow('Cancelled');
+  });
+
+  test('It should reject if an asynchronous validator fails', async () => {
+    const failing = new MikroValid(true).registerKeyword('broken', {
+      validator: async () => {
+        throw new Error('Database is down');
+      },
+      error: 'Never happens'
+    });
+
+    await expect(
+      failing.testAsync({ properties: { name: { type: 'string', broken: true } } }, { name: 'Sam' })
+    ).rejects.toThrow('Database is down');
+  });
+
+  test('It should throw when using asynchronous validators with test()', () => {
+    expect(() => validator.test(schema, { username: 'alex' })).toThrow(
+      'Asynchronous validators are only supported when using testAsync()!'
+    );
+  });
+
+  test('It should not leave a failing asynchronous validator unhandled when throwing with test()', async () => {
+    const rejections: unknown[] = [];
+    const onRejection = (reason: unknown) => rejections.push(reason);
+    const failing = new MikroValid(true).registerKeyword('broken', {
+      validator: async () => {
+        throw new Error('Database is down');
+      },
+      error: 'Never happens'
+    });
+
+    process.on('unhandledRejection', onRejection);
+
+    try {
+      expect(() =>
+        failing.test({ properties: { name: { type: 'string', broken: true } } }, { name: 'Sam' })
+      ).toThrow('Asynchronous validators are only supported when using testAsync()!');
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(rejections).toEqual([]);
+    } finally {
+      process.off('unhandledRejection', onRejection);
+    }
+  });
+
+  test('It should throw an error if there is no input', async () => {
+    await expect(validator.testAsync(schema, undefined as any)).rejects.toThrow('Missing input!');
+  });
+});
+
+/**
+ * COMPONENTS AND MORE COMPLEX OBJECTS
+ */
+
+describe('Compilation', () => {
+  const schema = {
+    properties: {
+      name: { type: 'string', minLength: 2 },
+      email: { type: 'string', format: 'email' },
+      code: { type: 'string', matchesPattern: /^[A-Z]{3}$/g },
+      orders: {
+        type: 'array',
+        items: {
+          type: 'object',
+          qty: { type: 'number', maxValue: 10 },
+          required: ['qty']
+        }
+      },
+      required: ['name', 'email'],
+      additionalProperties: false
+    }
+  } as const;
+
+  test('It should return a reusable validator function', () => {
+    const validate = mikrovalid.compile(schema);
+
+    expect(validate({ name: 'Sam', email: 'sam@company.com' })).toMatchObject({
+      success: true,
+      errors: []
+    });
+    expect(validate({ name: 'S', email: 'sam@company.com' }).success).toBe(false);
+    expect(validate({ name: 'Sam', email: 'sam@company.com' }).success).toBe(true);
+  });
+
+  test('It should give the same results as test()', () => {
+    const validate = mikrovalid.compile(schema);
+    const inputs = [
+      { name: 'Sam', email: 'sam@company.com', code: 'ABC', orders: [{ qty: 1 }] },
+      { name: 'S', email: 'sam', code: 'abc', orders: [{ qty: 11 }, {}], extra: true },
+      { email: 'sam@company.com', orders: 'none' }
+    ];
+
+    for (const input of inputs) expect(validate(input)).toEqual(mikrovalid.test(schema, input));
+  });
+
+  test('It should match global regular expressions consistently across validations', () => {
+    const validate = mikrovalid.compile(schema);
+    const input = { name: 'Sam', email: 'sam@company.com', code: 'ABC' };
+
+    expect(validate(input).success).toBe(true);
+    expect(validate(input).success).toBe(true);
+  });
+
+  test('It should use the custom formats and keywords of the instance', () => {
+    const validator = new MikroValid(true)
+      .registerFormat('sku', /^[A-Z]{3}-\d{4}$/)
+      .registerKeyword('divisibleBy', {
+        validator: (value: number, divisor: number) => value % divisor === 0,
+        error: 'Value is not divisible'
+      });
+
+    const validate = validator.compile({
+      properties: {
+        sku: { type: 'string', format: 'sku' },
+        amount: { type: 'number', divisibleBy: 5 }
+      }
+    });
+
+    expect(validate({ sku: 'ABC-1234', amount: 10 }).success).toBe(true);
+    expect(validate({ sku: 'abc', amount: 7 }).errors).toMatchObject([
+      { key: 'sku', error: 'Invalid format' },
+      { key: 'amount', error: 'Value is not divisible' }
+    ]);
+  });
+
+  test('It should use the schema as it is when test() is called', () => {
+    const schema: { properties: Record<string, any> } = {
+      properties: { name: { type: 'string' } }
+    };
+
+    expect(mikrovalid.test(schema, { name: 'Sam' }).success).toBe(true);
+
+    schema.properties.required = ['age'];
+    schema.properties.name.minLength = 5;
+
+    expect(mikrovalid.test(schema, { name: 'Sam' }).errors).toMatchObject([
+      { key: 'age', error: "Missing the required key: 'age'!" },
+      { key: 'name', error: 'Length too short' }
+    ]);
+  });
+
+  test('It should use formats registered after a schema was first used', () => {
+    const validator = new MikroValid(true);
+    const schema = { properties: { sku: { type: 'string', format: 'sku' } } } as const;
+
+    // @ts-expect-error - the format is not registered yet
+    expect(validator.test(schema, { sku: 'ABC-1234' }).success).toBe(false);
+    expect(
+      validator.registerFormat('sku', /^[A-Z]{3}-\d{4}$/).test(schema, { sku: 'ABC-1234' }).success
+    ).toBe(true);
+  });
+
+  test('It should throw an error if there is no input', () => {
+    const validate = mikrovalid.compile(schema);
+    expect(() => validate(undefined as any)).toThrow('Missing input!');
+  });
+});
+
+describe('Coercion', () => {
+  const schema = {
+    properties: {
+      page: { type: 'number', minValue: 1 },
+      active: { type: 'boolean' },
+      tags: { type: 'array', items: { type: 'string' } },
+      ids: { type: 'array', items: { type: 'number' } },
+      filter: {
+        type: 'object',
+        status: { type: 'string' },
+        limit: { type: 'number' }
+      },
+      query: { type: ['string', 'number'] }
+    }
+  } as const;
+
+  test('It should convert strings to numbers and booleans', () => {
+    const { success, data } = mikrovalid.test(
+      schema,
+      { page: '42', active: 'false' },
+      { coerce: true }
+    );
+
+    expect(success).toBe(true);
+    expect(data).toEqual({ page: 42, active: false });
+  });
+
+  test('It should convert comma-separated strings to arrays and coerce their items', () => {
+    const { success, data } = mikrovalid.test(
+      schema,
+      { tags: 'a, b,c', ids: '1,2,3' },
+      { coerce: true }
+    );
+
+    expect(success).toBe(true);
+    expect(data).toEqual({ tags: ['a', 'b', 'c'], ids: [1, 2, 3] });
+  });
+
+  test('It should coerce the items of repeated values and wrap single values in an array', () => {
+    const { success, data } = mikrovalid.test(
+      schema,
+      { tags: 'single', ids: ['1', '2'] },
+      { coerce: true }
+    );
+
+    expect(success).toBe(true);
+    expect(data).toEqual({ tags: ['single'], ids: [1, 2] });
+    expect(mikrovalid.test(schema, { ids: 7 }, { coerce: true }).data).toEqual({ ids: [7] });
+  });
+
+  test('It should coerce nested objects, including ones given as JSON strings', () => {
+    const fromObject = mikrovalid.test(
+      schema,
+      { filter: { status: 'open', limit: '10' } },
+      { coerce: true }
+    );
+    const fromString = mikrovalid.test(
+      schema,
+      { filter: '{"status":"open","limit":"10"}' },
+      { coerce: true }
+    );
+
+    expect(fromObject.data).toEqual({ filter: { status: 'open', limit: 10 } });
+    expect(fromString.data).toEqual({ filter: { status: 'open', limit: 10 } });
+  });
+
+  test('It should coerce the items of arrays of objects', () => {
+    const { success, data } = mikrovalid.test(
+      {
+        properties: {
+          orders: { type: 'array', items: { type: 'object', qty: { type: 'number' } } }
+        }
+      },
+      { orders: [{ qty: '1' }, { qty: '2' }] },
+      { coerce: true }
+    );
+
+    expect(success).toBe(true);
+    expect(data).toEqual({ orders: [{ qty: 1 }, { qty: 2 }] });
+  });
+
+  test('It should keep values that already have one of the expected types', () => {
+    const { data } = mikrovalid.test(schema, { query: '42', page: 3 }, { coerce: true });
+    expect(data).toEqual({ query: '42', page: 3 });
+  });
+
+  test('It should invalidate values that cannot be converted and keep them as they are', () => {
+    const { success, errors, data } = mikrovalid.test(
+      schema,
+      { active: 'yes', ids: '1,x', filter: 'not json' },
+      { coerce: true }
+    );
+
+    expect(success).toBe(false);
+    expect(errors).toMatchObject([
+      { key: 'active', value: 'yes', error: 'Invalid type' },
+      { key: 'ids[1]', value: 'x', error: 'Invalid type' },
+      { key: 'filter', value: 'not json', error: 'Invalid type' }
+    ]);
+    expect(data).toEqual({ active: 'yes', ids: [1, 'x'], filter: 'not json' });
+  });
+
+  test('It should validate the converted values', () => {
+    const { errors } = mikrovalid.test(schema, { page: '-1' }, { coerce: true });
+    expect(errors).toMatchObject([{ key: 'page', value: -1, error: 'Value too small' }]);
+  });
+
+  test('It should not mutate the input', () => {
+    const input = { page: '2', filter: { limit: '10' }, ids: ['1'] };
+    mikrovalid.test(schema, input, { coerce: true });
+    expect(input).toEqual({ page: '2', filter: { limit: '10' }, ids: ['1'] });
+  });
+
+  test('It should not convert or return data when not coercing', () => {
+    const result = mikrovalid.test(schema, { page: '42' });
+    expect(result.success).toBe(false);
+    expect(result).not.toHaveProperty('data');
+  });
+
+  test('It should coerce with compile(), parse() and testAsync()', async () => {
+    const input = { page: '2', active: 'true' };
+    const expected = { page: 2, active: true };
+
+    expect(mikrovalid.compile(schema, { coerce: true })(input).data).toEqual(expected);
+    expect(mikrovalid.parse(schema, input, { coerce: true })).toEqual({
+      success: true,
+      data: expected
+    });
+    expect((await mikrovalid.testAsync(schema, input, { coerce: true })).data).toEqual(expected);
+  });
+});
+
+describe('Default values', () => {
+  const schema = {
+    properties: {
+      name: { type: 'string' },
+      role: { type: 'string', default: 'member' },
+      settings: {
+        type: 'object',
+        default: {},
+        theme: { type: 'string', default: 'light' },
+        notifications: { type: 'boolean', default: true }
+      },
+      tags: { type: 'array', default: ['new'], items: { type: 'string' } },
+      orders: {
+        type: 'array',
+        items: {
+          type: 'object',
+          sku: { type: 'string' },
+          qty: { type: 'number', default: 1 }
+        }
+      },
+      required: ['name', 'role']
+    }
+  } as const;
+
+  test('It should return a copy of the input with the defaults applied', () => {
+    const { success, data } = mikrovalid.test(schema, { name: 'Sam' }, { useDefaults: true });
+
+    expect(success).toBe(true);
+    expect(data).toEqual({
+      name: 'Sam',
+      role: 'member',
+      settings: { theme: 'light', notifications: true },
+      tags: ['new']
+    });
+  });
+
+  test('It should apply defaults in nested objects and array items', () => {
+    const { data } = mikrovalid.test(
+      schema,
+      {
+        name: 'Sam',
+        settings: { theme: 'dark' },
+        orders: [{ sku: 'ABC' }, { sku: 'DEF', qty: 3 }]
+      },
+      { useDefaults: true }
+    );
+
+    expect(data).toMatchObject({
+      settings: { theme: 'dark', notifications: true },
+      orders: [
+        { sku: 'ABC', qty: 1 },
+        { sku: 'DEF', qty: 3 }
+      ]
+    });
+  });
+
+  test('It should apply the default of array items to missing elements', () => {
+    const { data } = mikrovalid.test(
+      { properties: { scores: { type: 'array', items: { type: 'number', default: 0 } } } },
+      { scores: [1, undefined, 3] },
+      { useDefaults: true }
+    );
+
+    expect(data).toEqual({ scores: [1, 0, 3] });
+  });
+
+  test('It should keep values that are set, including falsy ones', () => {
+    const { data } = mikrovalid.test(
+      schema,
+      { name: 'Sam', role: '', settings: { notifications: false } },
+      { useDefaults: true }
+    );
+
+    expect(data).toMatchObject({ role: '', settings: { notifications: false } });
+  });
+
+  test('It should satisfy required keys with defaults', () => {
+    expect(mikrovalid.test(schema, { name: 'Sam' }, { useDefaults: true }).success).toBe(true);
+    expect(mikrovalid.test(schema, { name: 'Sam' }).success).toBe(false);
+  });
+
+  test('It should validate the default values', () => {
+    const { success, errors } = mikrovalid.test(
+      { properties: { age: { type: 'number', default: 'unknown' as any } } },
+      {},
+      { useDefaults: true }
+    );
+
+    expect(success).toBe(false);
+    expect(errors).toMatchObject([{ key: 'age', value: 'unknown', error: 'Invalid type' }]);
+  });
+
+  test('It should not mutate the input or share default values between outputs', () => {
+    const input = { name: 'Sam', orders: [{ sku: 'ABC' }] };
+
+    const first = mikrovalid.test(schema, input, { useDefaults: true }).data!;
+    const second = mikrovalid.test(schema, input, { useDefaults: true }).data!;
+    first.tags.push('changed');
+
+    expect(input).toEqual({ name: 'Sam', orders: [{ sku: 'ABC' }] });
+    expect(second.tags).toEqual(['new']);
+    expect(schema.properties.tags.default).toEqual(['new']);
+  });
+
+  test('It should apply defaults with parse()', () => {
+    const result = mikrovalid.parse(schema, { name: 'Sam' }, { useDefaults: true });
+
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.role).toBe('member');
+  });
+
+  test('It should apply defaults before coercing', () => {
+    const { data } = mikrovalid.test(
+      { properties: { page: { type: 'number', default: 1 }, size: { type: 'number' } } },
+      { size: '20' },
+      { useDefaults: true, coerce: true }
+    );
+
+    expect(data).toEqual({ page: 1, size: 20 });
+  });
+});
+
+describe('Unknown property handling', () => {
+  const schema = {
+    properties: {
+      name: { type: 'string' },
+      address: {
+        type: 'object',
+        street: { type: 'string' }
+      },
+      orders: {
+        type: 'array',
+        items: { type: 'object', sku: { type: 'string' } }
+      }
+    }
+  } as const;
+
+  const input = {
+    name: 'Sam',
+    role: 'admin',
+    address: { street: 'Main Street', secret: 'x' },
+    orders: [{ sku: 'ABC', price: 0 }]
+  };
+
+  test('It should strip unknown properties at every level when set on the instance', () => {
+    const { success, data } = new MikroValid({
+      isSilent: true,
+      additionalProperties: 'strip'
+    }).test(schema, input);
+
+    expect(success).toBe(true);
+    expect(data).toEqual({
+      name: 'Sam',
+      address: { street: 'Main Street' },
+      orders: [{ sku: 'ABC' }]
+    });
+  });
+
+  test('It should strip unknown properties only where set in the schema', () => {
+    const { success, data } = mikrovalid.test(
+      {
+        properties: {
+          ...schema.properties,
+          address: { ...schema.properties.address, additionalProperties: 'strip' }
+        }
+      },
+      input
+    );
+
+    expect(success).toBe(true);
+    expect(data).toEqual({ ...input, address: { street: 'Main Street' } });
+  });
+
+  test('It should pass through unknown properties where set in the schema', () => {
+    const { data } = new MikroValid({ isSilent: true, additionalProperties: 'strip' }).test(
+      {
+        properties: {
+          ...schema.properties,
+          address: { ...schema.properties.address, additionalProperties: 'passthrough' }
+        }
+      },
+      input
+    );
+
+    expect(data).toEqual({
+      name: 'Sam',
+      address: { street: 'Main Street', secret: 'x' },
+      orders: [{ sku: 'ABC' }]
+    });
+  });
+
+  test('It should disallow unknown properties at every level when set on the instance', () => {
+    const { success, errors } = new MikroValid({
+      isSilent: true,
+      additionalProperties: false
+    }).test(schema, input);
+
+    expect(success).toBe(false);
+    expect(errors).toMatchObject([
+      { error: "Has additional (disallowed) properties: 'role'!" },
+      { error: "Has additional (disallowed) properties: 'secret'!" },
+      { error: "Has additional (disallowed) properties: 'price'!" }
+    ]);
+  });
+
+  test('It should not mutate the input when stripping', () => {
+    const original = structuredClone(input);
+    new MikroValid({ isSilent: true, additionalProperties: 'strip' }).test(schema, input);
+    expect(input).toEqual(original);
+  });
+
+  test('It should not return data when nothing is stripped', () => {
+    expect(mikrovalid.test(schema, input)).not.toHaveProperty('data');
+  });
+
+  test('It should not warn about stripped properties', () => {
+    let warnCalled = false;
+    const originalWarn = console.warn;
+
+    try {
+      console.warn = () => (warnCalled = true);
+      new MikroValid({ additionalProperties: 'strip' }).test(schema, input);
+      expect(warnCalled).toBe(false);
+    } finally {
+      console.warn = originalWarn;
+    }
+  });
+
+  test('It should not warn about properties that pass through', () => {
+    const warnings: string[] = [];
+    const originalWarn = console.warn;
+
+    try {
+      console.warn = (message: string) => warnings.push(message);
+      new MikroValid({ additionalProperties: 'passthrough' }).test(schema, input);
+      new MikroValid().test(
+        {
+          properties: {
+            ...schema.properties,
+            address: { ...schema.properties.address, additionalProperties: 'passthrough' }
+          }
+        },
+        input
+      );
+      expect(warnings).toEqual([]);
+    } finally {
+      console.warn = originalWarn;
+    }
+  });
+
+  test('It should only warn about disallowed properties below the root level', () => {
+    const warnings: string[] = [];
+    const originalWarn = console.warn;
+
+    try {
+      console.warn = (message: string) => warnings.push(message);
+      const { errors } = new MikroValid({ additionalProperties: false }).test(schema, input);
+
+      expect(errors).toHaveLength(3);
+      expect(warnings).toEqual([
+        "Missing property 'secret' for match 'x'. Skipping...",
+        "Missing property 'price' for match '0'. Skipping..."
+      ]);
+    } finally {
+      console.warn = originalWarn;
+    }
+  });
+
+  test('It should strip with compile(), parse() and testAsync()', async () => {
+    const validator = new MikroValid({ isSilent: true, additionalProperties: 'strip' });
+    const expected = { name: 'Sam' };
+
+    expect(validator.compile(schema)({ name: 'Sam', role: 'admin' }).data).toEqual(expected);
+    expect(validator.parse(schema, { name: 'Sam', role: 'admin' })).toEqual({
+      success: true,
+      data: expected
+    });
+    expect((await validator.testAsync(schema, { name: 'Sam', role: 'admin' })).data).toEqual(
+      expected
+    );
+  });
+});
+
+describe('Allowed values', () => {
+  const schema = {
+    properties: {
+      status: { type: 'string', enum: ['open', 'closed'] },
+      priority: { type: 'number', enum: [1, 2, 3] },
+      isPublic: { type: 'boolean', const: false },
+      version: { type: 'number', const: 0 },
+      point: {
+        type: 'object',
+        enum: [
+          { x: 0, y: 0 },
+          { x: 1, y: 1 }
+        ]
+      },
+      range: { type: 'array', const: [1, [2, 3]] }
+    }
+  } as const;
+
+  test('It should validate values that are in an enum', () => {
+    const { success } = mikrovalid.test(schema, {
+      status: 'open',
+      priority: 3,
+      point: { y: 1, x: 1 }
+    });
+
+    expect(success).toBe(true);
+  });
+
+  test('It should invalidate values that are not in an enum and list the allowed values', () => {
+    const { success, errors } = mikrovalid.test(schema, {
+      status: 'pending',
+      priority: '1',
+      point: { x: 0, y: 0, z: 0 }
+    });
+
+    expect(success).toBe(false);
+    expect(errors).toMatchObject([
+      { key: 'status', error: 'Value must be one of: "open", "closed"' },
+      { key: 'priority', error: 'Invalid type' },
+      { key: 'priority', error: 'Value must be one of: 1, 2, 3' },
+      { key: 'point', error: 'Value must be one of: {"x":0,"y":0}, {"x":1,"y":1}' }
+    ]);
+  });
+
+  test('It should validate values that equal a constant, including falsy ones', () => {
+    const { success } = mikrovalid.test(schema, {
+      isPublic: false,
+      version: 0,
+      range: [1, [2, 3]]
+    });
+
+    expect(success).toBe(true);
+  });
+
+  test('It should invalidate values that do not equal a constant and show the constant', () => {
+    const { success, errors } = mikrovalid.test(schema, {
+      isPublic: true,
+      version: 1,
+      range: [1, [2]]
+    });
+
+    expect(success).toBe(false);
+    expect(errors).toMatchObject([
+      { key: 'isPublic', error: 'Value must be: false' },
+      { key: 'version', error: 'Value must be: 0' },
+      { key: 'range', error: 'Value must be: [1,[2,3]]' }
+    ]);
+  });
+
+  test('It should compare the values of array items', () => {
+    const { errors } = mikrovalid.test(
+      {
+        properties: {
+          sizes: { type: 'array', items: { type: 'string', enum: ['S', 'M', 'L'] } }
+        }
+      },
+      { sizes: ['S', 'XL'] }
+    );
+
+    expect(errors).toMatchObject([
+      { key: 'sizes[1]', value: 'XL', error: 'Value must be one of: "S", "M", "L"' }
+    ]);
+  });
+});
+
+describe('Composition', () => {
+  const card = {
+    type: 'object',
+    method: { type: 'string', const: 'card' },
+    cardNumber: { type: 'string', minLength: 12 },
+    required: ['method', 'cardNumber']
+  } as const;
+
+  const invoice = {
+    type: 'object',
+    method: { type: 'string', const: 'invoice' },
+    invoiceNumber: { type: 'string' },
+    required: ['method', 'invoiceNumber']
+  } as const;
+
+  const schema = {
+    properties: {
+      payment: {
+        type: 'object',
+        amount: { type: 'number' },
+        anyOf: [card, invoice],
+        required: ['amount']
+      },
+      id: {
+        oneOf: [
+          { type: 'string', minLength: 3 },
+          { type: 'number' },
+          { type: 'string', maxLength: 4 }
+        ]
+      },
+      code: {
+        type: 'string',
+        allOf: [{ matchesPattern: /^[A-Z]/ }, { maxLength: 4 }]
+      },
+      name: { type: 'string', not: { const: 'admin' } },
+      required: ['payment']
+    }
+  } as const;
+
+  test('It should validate a value that matches any of the anyOf schemas', () => {
+    const { success } = mikrovalid.test(schema, {
+      payment: { amount: 10, method: 'invoice', invoiceNumber: 'INV-1' }
+    });
+
+    expect(success).toBe(true);
+  });
+
+  test('It should explain why each of the anyOf schemas failed', () => {
+    const { success, errors } = mikrovalid.test(schema, {
+      payment: { amount: 10, method: 'card', cardNumber: '123' }
+    });
+
+    expect(success).toBe(false);
+    expect(errors).toEqual([
+      {
+        key: 'payment',
+        value: { amount: 10, method: 'card', cardNumber: '123' },
+        success: false,
+        error:
+          'Does not match any schema in anyOf: (1) payment.cardNumber: Length too short; (2) payment.invoiceNumber: Missing the required key: \'invoiceNumber\'!, payment.method: Value must be: "invoice"',
+        code: 'anyOf',
+        params: {},
+        instancePath: '/payment',
+        schemaPath: '/properties/payment/anyOf'
+      }
+    ]);
+  });
+
+  test('It should validate a value that matches exactly one of the oneOf schemas', () => {
+    expect(
+      mikrovalid.test(schema, {
+        payment: { amount: 1, method: 'invoice', invoiceNumber: '1' },
+        id: 12345
+      }).success
+    ).toBe(true);
+    expect(
+      mikrovalid.test(schema, {
+        payment: { amount: 1, method: 'invoice', invoiceNumber: '1' },
+        id: 'abcde'
+      }).success
+    ).toBe(true);
+  });
+
+  test('It should report when a value matches more than one of the oneOf schemas', () => {
+    const { errors } = mikrovalid.test(schema, {
+      payment: { amount: 1, method: 'invoice', invoiceNumber: '1' },
+      id: 'abcd'
+    });
+
+    expect(errors).toMatchObject([
+      { key: 'id', value: 'abcd', error: 'Matches more than one schema in oneOf: 1, 3' }
+    ]);
+  });
+
+  test('It should report when a value matches none of the oneOf schemas', () => {
+    const { errors } = mikrovalid.test(schema, {
+      payment: { amount: 1, method: 'invoice', invoiceNumber: '1' },
+      id: true
+    });
+
+    expect(errors).toMatchObject([
+      {
+        key: 'id',
+        error:
+          'Does not match any schema in oneOf: (1) id: Invalid type; (2) id: Invalid type; (3) id: Invalid type'
+      }
+    ]);
+  });
+
+  test('It should require a value to match all of the allOf schemas and explain which failed', () => {
+    const valid = mikrovalid.test(schema, {
+      payment: { amount: 1, method: 'invoice', invoiceNumber: '1' },
+      code: 'ABC'
+    });
+    const invalid = mikrovalid.test(schema, {
+      payment: { amount: 1, method: 'invoice', invoiceNumber: '1' },
+      code: 'abcde'
+    });
+
+    const partlyValid = mikrovalid.test(schema, {
+      payment: { amount: 1, method: 'invoice', invoiceNumber: '1' },
+      code: 'abc'
+    });
+
+    expect(valid.success).toBe(true);
+    expect(partlyValid.errors).toMatchObject([
+      {
+        key: 'code',
+        error: 'Does not match all schemas in allOf: (1) code: Pattern does not match'
+      }
+    ]);
+    expect(invalid.errors).toMatchObject([
+      {
+        key: 'code',
+        error:
+          'Does not match all schemas in allOf: (1) code: Pattern does not match; (2) code: Length too long'
+      }
+    ]);
+  });
+
+  test('It should invalidate a value that matches the not schema', () => {
+    const { errors } = mikrovalid.test(schema, {
+      payment: { amount: 1, method: 'invoice', invoiceNumber: '1' },
+      name: 'admin'
+    });
+
+    expect(errors).toMatchObject([{ key: 'name', error: 'Matches the schema in not' }]);
+  });
+
+  test('It should validate the items of arrays with composition', () => {
+    const { errors } = mikrovalid.test(
+      {
+        properties: {
+          values: { type: 'array', items: { anyOf: [{ type: 'string' }, { type: 'number' }] } }
+        }
+      },
+      { values: ['a', 1, true] }
+    );
+
+    expect(errors).toMatchObject([
+      {
+        key: 'values[2]',
+        value: true,
+        error:
+          'Does not match any schema in anyOf: (1) values[2]: Invalid type; (2) values[2]: Invalid type'
+      }
+    ]);
+  });
+
+  test('It should support composition on the root level', () => {
+    const rootSchema = {
+      properties: {
+        email: { type: 'string' },
+        phone: { type: 'string' },
+        anyOf: [{ required: ['email'] }, { required: ['phone'] }]
+      }
+    } as const;
+
+    expect(mikrovalid.test(rootSchema, { phone: '123' }).success).toBe(true);
+    expect(mikrovalid.test(rootSchema, {}).errors).toMatchObject([
+      {
+        key: '',
+        error:
+          "Does not match any schema in anyOf: (1) email: Missing the required key: 'email'!; (2) phone: Missing the required key: 'phone'!"
+      }
+    ]);
+  });
+
+  test('It should treat the properties of branches as known when disallowing or stripping properties', () => {
+    const strictSchema = {
+      properties: {
+        payment: { type: 'object', anyOf: [card, invoice], additionalProperties: false }
+      }
+    } as const;
+    const payment = { method: 'card', cardNumber: '123456789012' };
+
+    expect(mikrovalid.test(strictSchema, { payment }).success).toBe(true);
+    expect(
+      mikrovalid.test(strictSchema, { payment: { ...payment, extra: 1 } }).errors
+    ).toMatchObject([{ error: "Has additional (disallowed) properties: 'extra'!" }]);
+
+    const { data } = new MikroValid({ isSilent: true, additionalProperties: 'strip' }).test(
+      { properties: { payment: { type: 'object', anyOf: [card, invoice] } } },
+      { payment: { ...payment, extra: 1 } }
+    );
+
+    expect(data).toEqual({ payment });
+  });
+
+  test('It should return the coerced output of the matching branch', () => {
+    const { data } = mikrovalid.test(
+      {
+        properties: {
+          limit: { anyOf: [{ type: 'boolean' }, { type: 'number' }] },
+          filter: {
+            type: 'object',
+            allOf: [
+              { type: 'object', page: { type: 'number', default: 1 } },
+              { type: 'object', size: { type: 'number' } }
+            ]
+          }
+        }
+      },
+      { limit: '10', filter: { size: '20' } },
+      { coerce: true, useDefaults: true }
+    );
+
+    expect(data).toEqual({ limit: 10, filter: { page: 1, size: 20 } });
+  });
+
+  test('It should support asynchronous validators in branches with testAsync()', async () => {
+    const validator = new MikroValid(true);
+    const asyncSchema = {
+      properties: {
+        username: {
+          type: 'string',
+          anyOf: [
+            { validate: async (value: string) => value.startsWith('@') || 'No handle' },
+            { validate: async (value: string) => value.includes('.') || 'No domain' }
+          ]
+        }
+      }
+    } as const;
+
+    expect((await validator.testAsync(asyncSchema, { username: '@sam' })).success).toBe(true);
+    expect((await validator.testAsync(asyncSchema, { username: 'sam' })).errors).toMatchObject([
+      {
+        key: 'username',
+        error:
+          'Does not match any schema in anyOf: (1) username: No handle; (2) username: No domain'
+      }
+    ]);
+    expect(() => validator.test(asyncSchema, { username: 'sam' })).toThrow(
+      'Asynchronous validators are only supported when using testAsync()!'
+    );
+  });
+});
+
+describe('Discriminated unions', () => {
+  const schema = {
+    properties: {
+      event: {
+        type: 'object',
+        id: { type: 'string' },
+        discriminator: {
+          propertyName: 'type',
+          mapping: {
+            'order.created': {
+              type: 'object',
+              total: { type: 'number', minValue: 1 },
+              required: ['total']
+            },
+            'order.cancelled': {
+              type: 'object',
+              reason: { type: 'string' },
+              required: ['reason']
+            }
+          }
+        },
+        required: ['id']
+      },
+      required: ['event']
+    }
+  } as const;
+
+  test('It should validate an object against the variant selected by its discriminator', () => {
+    const { success } = mikrovalid.test(schema, {
+      event: { id: '1', type: 'order.created', total: 10 }
+    });
+
+    expect(success).toBe(true);
+  });
+
+  test('It should only report errors from the selected variant', () => {
+    const { errors } = mikrovalid.test(schema, {
+      event: { id: '1', type: 'order.cancelled', total: 10 }
+    });
+
+    expect(errors).toMatchObject([
+      {
+        key: 'event.reason',
+        error: "Missing the required key: 'reason'!",
+        instancePath: '/event/reason'
+      }
+    ]);
+    expect(errors).toHaveLength(1);
+  });
+
+  test('It should validate the properties of the selected variant', () => {
+    const { errors } = mikrovalid.test(schema, {
+      event: { id: '1', type: 'order.created', total: 0 }
+    });
+
+    expect(errors).toMatchObject([{ key: 'event.total', value: 0 }]);
+    expect(errors).toHaveLength(1);
+  });
+
+  test('It should give an error for an unknown discriminator value', () => {
+    const { errors } = mikrovalid.test(schema, {
+      event: { id: '1', type: 'order.shipped' }
+    });
+
+    expect(errors).toEqual([
+      {
+        key: 'event.type',
+        value: 'order.shipped',
+        success: false,
+        error:
+          'Unknown value for the discriminator property \'type\': "order.shipped"! Allowed values: "order.created", "order.cancelled"',
+        code: 'discriminator',
+        params: { propertyName: 'type', allowed: ['order.created', 'order.cancelled'] },
+        instancePath: '/event/type',
+        schemaPath: '/properties/event/discriminator'
+      }
+    ]);
+  });
+
+  test('It should only select a variant for a string discriminator value', () => {
+    const { errors } = mikrovalid.test(schema, {
+      event: { id: '1', type: ['order.created'], total: 10 }
+    });
+
+    expect(errors).toMatchObject([
+      {
+        key: 'event.type',
+        value: ['order.created'],
+        error:
+          'Unknown value for the discriminator property \'type\': ["order.created"]! Allowed values: "order.created", "order.cancelled"',
+        code: 'discriminator'
+      }
+    ]);
+
+    const numeric = {
+      properties: {
+        shape: {
+          type: 'object',
+          discriminator: { propertyName: 'kind', mapping: { '1': { type: 'object' } } }
+        }
+      }
+    } as const;
+
+    expect(mikrovalid.test(numeric, { shape: { kind: '1' } }).success).toBe(true);
+    expect(mikrovalid.test(numeric, { shape: { kind: 1 } }).success).toBe(false);
+  });
+
+  test('It should give an error for a missing discriminator value', () => {
+    const { errors } = mikrovalid.test(schema, { event: { id: '1', toString: 'x' } });
+
+    expect(errors).toMatchObject([
+      {
+        key: 'event.type',
+        error:
+          'Missing the discriminator property: \'type\'! Allowed values: "order.created", "order.cancelled"'
+      }
+    ]);
+    expect(mikrovalid.test(schema, { event: { id: '1', type: 'toString' } }).success).toBe(false);
+  });
+
+  test('It should still validate the properties shared by all variants', () => {
+    const { errors } = mikrovalid.test(schema, {
+      event: { type: 'order.created', total: 10 }
+    });
+
+    expect(errors).toMatchObject([{ key: 'event.id', error: "Missing the required key: 'id'!" }]);
+  });
+
+  test('It should know about the properties of the selected variant', () => {
+    const strictSchema = {
+      properties: {
+        event: { ...schema.properties.event, additionalProperties: false }
+      }
+    } as const;
+    const event = { id: '1', type: 'order.created', total: 10 };
+
+    expect(mikrovalid.test(strictSchema, { event }).success).toBe(true);
+    expect(
+      mikrovalid.test(strictSchema, { event: { ...event, reason: 'Oops' } }).errors
+    ).toMatchObject([{ error: "Has additional (disallowed) properties: 'reason'!" }]);
+
+    const { data } = new MikroValid({ isSilent: true, additionalProperties: 'strip' }).test(
+      schema,
+      {
+        event: { ...event, reason: 'Oops' }
+      }
+    );
+
+    expect(data).toEqual({ event });
+  });
+
+  test('It should support discriminators on the root level and in arrays', () => {
+    const { mapping } = schema.properties.event.discriminator;
+    const rootSchema = {
+      properties: { discriminator: { propertyName: 'type', mapping } }
+    } as const;
+    const arraySchema = {
+      properties: {
+        events: {
+          type: 'array',
+          items: { type: 'object', discriminator: { propertyName: 'type', mapping } }
+        }
+      }
+    } as const;
+
+    expect(mikrovalid.test(rootSchema, { type: 'order.created', total: 5 }).success).toBe(true);
+    expect(mikrovalid.test(rootSchema, { type: 'order.created' }).errors).toMatchObject([
+      { key: 'total', error: "Missing the required key: 'total'!", instancePath: '/total' }
+    ]);
+    expect(
+      mikrovalid.test(arraySchema, {
+        events: [{ type: 'order.created', total: 5 }, { type: 'order.cancelled' }]
+      }).errors
+    ).toMatchObject([
+      {
+        key: 'events[1].reason',
+        error: "Missing the required key: 'reason'!",
+        instancePath: '/events/1/reason'
+      }
+    ]);
+  });
+
+  test('It should return the output of the selected variant', () => {
+    const { data } = mikrovalid.test(
+      {
+        properties: {
+          discriminator: {
+            propertyName: 'kind',
+            mapping: { page: { type: 'object', size: { type: 'number', default: 20 } } }
+          }
+        }
+      },
+      { kind: 'page' },
+      { useDefaults: true }
+    );
+
+    expect(data).toEqual({ kind: 'page', size: 20 });
+  });
+});
+
+describe('Definitions and references', () => {
+  const schema = {
+    definitions: {
+      address: {
+        type: 'object',
+        street: { type: 'string' },
+        city: { type: 'string', minLength: 2 },
+        required: ['street', 'city']
+      },
+      comment: {
+        type: 'object',
+        text: { type: 'string', minLength: 1 },
+        replies: { type: 'array', items: { $ref: '#/definitions/comment' } },
+        required: ['text']
+      }
+    },
+    properties: {
+      shipping: { $ref: '#/definitions/address' },
+      billing: { $ref: '#/definitions/address', city: { type: 'string', maxLength: 20 } },
+      comments: { type: 'array', items: { $ref: '#/definitions/comment' } }
+    }
+  } as const;
+
+  test('It should validate a property against a referenced definition', () => {
+    const address = { street: 'Main Street 1', city: 'Stockholm' };
+
+    expect(mikrovalid.test(schema, { shipping: address }).success).toBe(true);
+    expect(mikrovalid.test(schema, { shipping: { ...address, city: 'S' } }).errors).toMatchObject([
+      { key: 'shipping.city', value: 'S' }
+    ]);
+  });
+
+  test('It should let other keywords next to a reference override the referenced ones', () => {
+    const { errors } = mikrovalid.test(schema, {
+      billing: { street: 'Main Street 1', city: 'S'.repeat(21) }
+    });
+
+    expect(errors).toMatchObject([{ key: 'billing.city' }]);
+    expect(
+      mikrovalid.test(schema, { billing: { street: 'Main Street 1', city: 'S' } }).success
+    ).toBe(true);
+  });
+
+  test('It should validate recursive definitions', () => {
+    const comments = [
+      { text: 'First', replies: [{ text: 'Reply', replies: [{ text: 'Nested' }] }] },
+      { text: 'Second', replies: [{ text: 'Reply', replies: [{ text: '' }] }] }
+    ];
+
+    const { errors } = mikrovalid.test(schema, { comments });
+
+    expect(errors).toMatchObject([{ key: 'comments[1].replies[0].replies[0].text', value: '' }]);
+    expect(errors).toHaveLength(1);
+  });
+
+  test('It should finish when the input contains itself', () => {
+    const comment: Record<string, any> = { text: 'Loop', replies: [] };
+    comment.replies.push(comment);
+
+    expect(mikrovalid.test(schema, { comments: [comment] }).success).toBe(true);
+  });
+
+  test('It should support referring to the root definition', () => {
+    const treeSchema = {
+      properties: {
+        name: { type: 'string' },
+        children: { type: 'array', items: { $ref: '#' } },
+        required: ['name']
+      }
+    } as const;
+
+    expect(
+      mikrovalid.test(treeSchema, { name: 'root', children: [{ name: 'leaf', children: [] }] })
+        .success
+    ).toBe(true);
+    expect(
+      mikrovalid.test(treeSchema, { name: 'root', children: [{ children: [] }] }).errors
+    ).toMatchObject([{ error: "Missing the required key: 'name'!" }]);
+  });
+
+  test('It should support references in composition and to other references', () => {
+    const referenceSchema = {
+      definitions: {
+        id: { type: 'string', minLength: 3 },
+        alias: { $ref: '#/definitions/id' },
+        'a/b': { type: 'number' }
+      },
+      properties: {
+        key: { anyOf: [{ $ref: '#/definitions/alias' }, { $ref: '#/definitions/a~1b' }] }
+      }
+    } as const;
+
+    expect(mikrovalid.test(referenceSchema, { key: 'abc' }).success).toBe(true);
+    expect(mikrovalid.test(referenceSchema, { key: 123 }).success).toBe(true);
+    expect(mikrovalid.test(referenceSchema, { key: 'ab' }).success).toBe(false);
+  });
+
+  test('It should throw an error for references that cannot be resolved', () => {
+    expect(() =>
+      mikrovalid.test({ properties: { address: { $ref: '#/definitions/adress' } } } as any, {
+        address: {}
+      })
+    ).toThrow("Unable to resolve the reference: '#/definitions/adress'!");
+    expect(() =>
+      mikrovalid.compile({
+        definitions: { a: { $ref: '#/definitions/b' }, b: { $ref: '#/definitions/a' } },
+        properties: { value: { $ref: '#/definitions/a' } }
+      } as any)
+    ).toThrow("Circular reference: '#/definitions/a' -> '#/definitions/b' -> '#/definitions/a'!");
+  });
+
+  test('It should know about the properties of referenced definitions', () => {
+    const strictSchema = {
+      definitions: schema.definitions,
+      properties: {
+        shipping: { $ref: '#/definitions/address', additionalProperties: false }
+      }
+    } as const;
+
+    expect(
+      mikrovalid.test(strictSchema, {
+        shipping: { street: 'Main Street 1', city: 'Stockholm', floor: 2 }
+      }).errors
+    ).toMatchObject([{ error: "Has additional (disallowed) properties: 'floor'!" }]);
+  });
+});
+
+describe('Conditional validation', () => {
+  const schema = {
+    properties: {
+      address: {
+        type: 'object',
+        country: { type: 'string' },
+        state: { type: 'string' },
+        postalCode: { type: 'string' },
+        if: { country: { type: 'string', const: 'US' }, required: ['country'] },
+        then: { postalCode: { type: 'string', matchesPattern: /^\d{5}$/ }, required: ['state'] },
+        else: { postalCode: { type: 'string', minLength: 3 } }
+      },
+      order: {
+        type: 'object',
+        paymentMethod: { type: 'string' },
+        billingAddress: { type: 'string' },
+        giftWrap: { type: 'boolean' },
+        dependentRequired: { paymentMethod: ['billingAddress'] },
+        dependentSchemas: {
+          giftWrap: { message: { type: 'string', maxLength: 10 }, required: ['message'] }
+        }
+      }
+    }
+  } as const;
+
+  test('It should validate against then when the object matches if', () => {
+    expect(
+      mikrovalid.test(schema, { address: { country: 'US', state: 'CA', postalCode: '90210' } })
+        .success
+    ).toBe(true);
+
+    const { errors } = mikrovalid.test(schema, { address: { country: 'US', postalCode: '9021' } });
+
+    expect(errors).toMatchObject([
+      {
+        key: 'address.state',
+        error: "Missing the required key: 'state'!",
+        instancePath: '/address/state'
+      },
+      { key: 'address.postalCode', value: '9021' }
+    ]);
+  });
+
+  test('It should validate against else when the object does not match if', () => {
+    expect(
+      mikrovalid.test(schema, { address: { country: 'SE', postalCode: '111 22' } }).success
+    ).toBe(true);
+    expect(
+      mikrovalid.test(schema, { address: { country: 'SE', postalCode: '1' } }).errors
+    ).toMatchObject([{ key: 'address.postalCode', value: '1' }]);
+    expect(mikrovalid.test(schema, { address: { postalCode: '1' } }).success).toBe(false);
+  });
+
+  test('It should require keys that are required by other keys that are present', () => {
+    expect(mikrovalid.test(schema, { order: {} }).success).toBe(true);
+    expect(
+      mikrovalid.test(schema, { order: { paymentMethod: 'card', billingAddress: 'Main Street 1' } })
+        .success
+    ).toBe(true);
+    expect(mikrovalid.test(schema, { order: { paymentMethod: 'card' } }).errors).toEqual([
+      {
+        key: 'order.billingAddress',
+        value: { paymentMethod: 'card' },
+        success: false,
+        error: "Missing the key required by 'paymentMethod': 'billingAddress'!",
+        code: 'dependentRequired',
+        params: { key: 'paymentMethod', missing: ['billingAddress'] },
+        instancePath: '/order/billingAddress',
+        schemaPath: '/properties/order/dependentRequired'
+      }
+    ]);
+  });
+
+  test('It should validate against the schemas of keys that are present', () => {
+    expect(mikrovalid.test(schema, { order: { giftWrap: true, message: 'Enjoy!' } }).success).toBe(
+      true
+    );
+    expect(mikrovalid.test(schema, { order: { giftWrap: true } }).errors).toMatchObject([
+      { error: "Missing the required key: 'message'!" }
+    ]);
+    expect(
+      mikrovalid.test(schema, { order: { giftWrap: false, message: 'Happy birthday!' } }).errors
+    ).toMatchObject([{ key: 'order.message' }]);
+  });
+
+  test('It should know about the properties of then, else and dependent schemas', () => {
+    const strict = new MikroValid({ isSilent: true, additionalProperties: false });
+
+    expect(strict.test(schema, { order: { giftWrap: true, message: 'Enjoy!' } }).success).toBe(
+      true
+    );
+    expect(
+      strict.test(schema, { order: { giftWrap: true, message: 'Enjoy!', note: '' } }).errors
+    ).toMatchObject([{ error: "Has additional (disallowed) properties: 'note'!" }]);
+  });
+
+  test('It should support conditions on the root level, using their output', () => {
+    const { data } = mikrovalid.test(
+      {
+        properties: {
+          kind: { type: 'string' },
+          if: { kind: { type: 'string', const: 'page' }, required: ['kind'] },
+          then: { size: { type: 'number', default: 20 } }
+        }
+      },
+      { kind: 'page' },
+      { useDefaults: true }
+    );
+
+    expect(data).toEqual({ kind: 'page', size: 20 });
+  });
+
+  test('It should support asynchronous validators in if with testAsync()', async () => {
+    const validator = new MikroValid(true);
+    const asyncSchema = {
+      properties: {
+        user: {
+          type: 'object',
+          name: { type: 'string' },
+          email: { type: 'string' },
+          if: { name: { type: 'string', validate: async (value: string) => value === 'admin' } },
+          then: { required: ['email'] }
+        }
+      }
+    } as const;
+
+    expect((await validator.testAsync(asyncSchema, { user: { name: 'sam' } })).success).toBe(true);
+    expect(
+      (await validator.testAsync(asyncSchema, { user: { name: 'admin' } })).errors
+    ).toMatchObject([
+      {
+        key: 'user',
+        error: "Does not match the schema in then: user.email: Missing the required key: 'email'!"
+      }
+    ]);
+  });
+});
+
+describe('Custom error messages', () => {
+  test('It should use a single custom error message for every keyword', () => {
+    const schema = {
+      properties: {
+        name: { type: 'string', minLength: 2, errorMessage: 'Please enter your name' }
+      }
+    } as const;
+
+    expect(mikrovalid.test(schema, { name: 1 }).errors).toMatchObject([
+      { key: 'name', value: 1, success: false, error: 'Please enter your name', code: 'type' },
+      { key: 'name', value: 1, success: false, error: 'Please enter your name', code: 'minLength' }
+    ]);
+    expect(mikrovalid.test(schema, { name: 'S' }).errors).toMatchObject([
+      { error: 'Please enter your name' }
+    ]);
+  });
+
+  test('It should use custom error messages per keyword, keeping the default for others', () => {
+    const schema = {
+      properties: {
+        name: {
+          type: 'string',
+          minLength: 2,
+          maxLength: 5,
+          errorMessage: { minLength: 'Name must be at least {min} characters' }
+        }
+      }
+    } as const;
+
+    expect(mikrovalid.test(schema, { name: 'S' }).errors).toMatchObject([
+      { error: 'Name must be at least 2 characters' }
+    ]);
+    expect(mikrovalid.test(schema, { name: 'Samantha' }).errors).toMatchObject([
+      { error: 'Length too long' }
+    ]);
+  });
+
+  test('It should replace placeholders with the parameters of the keyword and the value', () => {
+    const schema = {
+      properties: {
+        age: {
+          type: 'number',
+          minValue: 18,
+          maxValue: 120,
+          errorMessage: { minValue: '{value} is below {min}', maxValue: '{value} is above {max}' }
+        },
+        color: {
+          type: 'string',
+          enum: ['red', 'green'],
+          errorMessage: { enum: '"{value}" is not one of: {allowed}' }
+        },
+        code: {
+          type: 'string',
+          matchesPattern: /^[A-Z]+$/,
+          errorMessage: { matchesPattern: '{value} does not match {pattern} {unknown}' }
+        },
+        tags: { type: 'array', errorMessage: { type: 'Expected {type}, got {value}' } }
+      }
+    } as const;
+
+    const { errors } = mikrovalid.test(schema, {
+      age: 12,
+      color: 'blue',
+      code: 'abc',
+      tags: { a: 1 }
+    });
+
+    expect(errors.map(({ error }) => error)).toEqual([
+      '12 is below 18',
+      '"blue" is not one of: red, green',
+      'abc does not match ^[A-Z]+$ {unknown}',
+      'Expected array, got {"a":1}'
+    ]);
+  });
+
+  test('It should use custom error messages for validate functions and custom keywords', async () => {
+    const validator = new MikroValid(true).registerKeyword('divisibleBy', {
+      validator: (value: number, divisor: number) => value % divisor === 0,
+      error: 'Not divisible'
+    });
+    const schema = {
+      properties: {
+        quantity: {
+          type: 'number',
+          divisibleBy: 6,
+          validate: (value: number) => value < 100 || 'Too many',
+          errorMessage: {
+            divisibleBy: 'Must come in packs of {divisibleBy}',
+            validate: 'At most 99, not {value}'
+          }
+        },
+        username: {
+          type: 'string',
+          validate: async (value: string) => value !== 'taken' || 'Username is taken',
+          errorMessage: 'Choose another username'
+        }
+      }
+    } as const;
+
+    expect(
+      (await validator.testAsync(schema, { quantity: 100, username: 'taken' })).errors
+    ).toMatchObject([
+      { key: 'quantity', error: 'Must come in packs of 6' },
+      { key: 'quantity', error: 'At most 99, not 100' },
+      { key: 'username', error: 'Choose another username' }
+    ]);
+  });
+
+  test('It should use custom error messages for object-level keywords', () => {
+    const schema = {
+      properties: {
+        address: {
+          type: 'object',
+          street: { type: 'string' },
+          paymentMethod: { type: 'string' },
+          billingAddress: { type: 'string' },
+          required: ['street'],
+          additionalProperties: false,
+          dependentRequired: { paymentMethod: ['billingAddress'] },
+          errorMessage: {
+            required: 'Please fill in: {missing}',
+            additionalProperties: 'Unexpected: {properties}',
+            dependentRequired: '{missing} is needed for {key}'
+          }
+        }
+      }
+    } as const;
+
+    const { errors } = mikrovalid.test(schema, {
+      address: { paymentMethod: 'card', floor: 2 }
+    });
+
+    expect(errors.map(({ error }) => error)).toEqual([
+      'Please fill in: street',
+      'billingAddress is needed for paymentMethod',
+      'Unexpected: floor'
+    ]);
+  });
+
+  test('It should use custom error messages for composition and discriminators', () => {
+    const schema = {
+      properties: {
+        id: {
+          anyOf: [{ type: 'string' }, { type: 'number' }],
+          errorMessage: { anyOf: 'The ID must be a string or a number' }
+        },
+        event: {
+          type: 'object',
+          discriminator: { propertyName: 'type', mapping: { created: { type: 'object' } } },
+          errorMessage: { discriminator: 'Unknown event "{value}", expected: {allowed}' }
+        }
+      }
+    } as const;
+
+    const { errors } = mikrovalid.test(schema, { id: true, event: { type: 'deleted' } });
+
+    expect(errors).toMatchObject([
+      { key: 'id', error: 'The ID must be a string or a number' },
+      { key: 'event.type', error: 'Unknown event "deleted", expected: created' }
+    ]);
+  });
+});
+
+describe('Structured errors', () => {
+  test('It should give the code, parameters and schema path of failed keywords', () => {
+    const schema = {
+      properties: {
+        name: { type: 'string', minLength: 2 },
+        tags: { type: 'array', items: { type: 'string', matchesPattern: /^#/ } },
+        address: {
+          type: 'object',
+          street: { type: 'string' },
+          'zip/code': { type: 'string', maxLength: 5 },
+          required: ['street'],
+          additionalProperties: false
+        }
+      }
+    } as const;
+
+    const { errors } = mikrovalid.test(schema, {
+      name: 'S',
+      tags: ['#a', 'b'],
+      address: { 'zip/code': '123456', floor: 2 }
+    });
+
+    expect(
+      errors.map(({ key, code, params, schemaPath }) => ({ key, code, params, schemaPath }))
+    ).toEqual([
+      {
+        key: 'address.street',
+        code: 'required',
+        params: { missing: ['street'] },
+        schemaPath: '/properties/address/required'
+      },
+      {
+        key: 'address.floor',
+        code: 'additionalProperties',
+        params: { properties: ['floor'] },
+        schemaPath: '/properties/address/additionalProperties'
+      },
+      {
+        key: 'name',
+        code: 'minLength',
+        params: { min: 2, actual: 1 },
+        schemaPath: '/properties/name/minLength'
+      },
+      {
+        key: 'tags[1]',
+        code: 'matchesPattern',
+        params: { pattern: '^#', flags: '' },
+        schemaPath: '/properties/tags/items/matchesPattern'
+      },
+      {
+        key: 'address.zip/code',
+        code: 'maxLength',
+        params: { max: 5, actual: 6 },
+        schemaPath: '/properties/address/zip~1code/maxLength'
+      }
+    ]);
+  });
+
+  test('It should give parameters that keep their meaning when serialized as JSON', () => {
+    const schema = {
+      properties: {
+        code: { type: 'string', matchesPattern: /^[a-z]+$/i },
+        age: { type: 'number' },
+        tags: { type: 'array', maxLength: 2, contains: { type: 'number' }, minContains: 2 }
+      }
+    } as const;
+
+    const { errors } = mikrovalid.test(schema, {
+      code: '123',
+      age: [],
+      tags: ['a', 1, 'b']
+    });
+
+    expect(
+      JSON.parse(JSON.stringify(errors.map(({ code, params }) => ({ code, params }))))
+    ).toEqual([
+      { code: 'matchesPattern', params: { pattern: '^[a-z]+$', flags: 'i' } },
+      { code: 'type', params: { type: 'number', actual: 'array' } },
+      { code: 'maxLength', params: { max: 2, actual: 3 } },
+      { code: 'contains', params: { min: 2, actual: 1 } }
+    ]);
+  });
+
+  test('It should give the instance path of every error as a JSON Pointer', () => {
+    const schema = {
+      properties: {
+        orders: {
+          type: 'array',
+          items: {
+            type: 'object',
+            qty: { type: 'number', minValue: 1 },
+            'sku.code': { type: 'string', minLength: 3 },
+            'a/b~c': { type: 'string' },
+            required: ['qty'],
+            additionalProperties: false
+          }
+        },
+        matrix: { type: 'array', items: { type: 'array', items: { type: 'number' } } },
+        contact: {
+          type: 'object',
+          anyOf: [
+            { email: { type: 'string', format: 'email' } },
+            { phone: { type: 'string' }, required: ['phone'] }
+          ]
+        }
+      }
+    } as const;
+
+    const { errors } = mikrovalid.test(schema, {
+      orders: [
+        { qty: 1 },
+        { qty: 1, 'sku.code': 'ab' },
+        { qty: 0, 'a/b~c': 1 },
+        { 'sku.code': 'abc', note: 'x' }
+      ],
+      matrix: [[1], [2, 'x']],
+      contact: { email: 'no' }
+    });
+
+    expect(errors.map(({ code, instancePath }) => ({ code, instancePath }))).toEqual([
+      { code: 'required', instancePath: '/orders/3/qty' },
+      { code: 'additionalProperties', instancePath: '/orders/3/note' },
+      { code: 'minLength', instancePath: '/orders/1/sku.code' },
+      { code: 'minValue', instancePath: '/orders/2/qty' },
+      { code: 'type', instancePath: '/orders/2/a~1b~0c' },
+      { code: 'type', instancePath: '/matrix/1/1' },
+      { code: 'anyOf', instancePath: '/contact' }
+    ]);
+  });
+
+  test('It should give the schema path of referenced definitions and branches', () => {
+    const schema = {
+      definitions: { id: { type: 'string', minLength: 3 } },
+      properties: {
+        owner: { $ref: '#/definitions/id' },
+        tag: { allOf: [{ type: 'string' }, { maxLength: 2 }] },
+        event: {
+          type: 'object',
+          discriminator: {
+            propertyName: 'kind',
+            mapping: { created: { type: 'object', at: { type: 'number' } } }
+          }
+        }
+      }
+    } as const;
+
+    const { errors } = mikrovalid.test(schema, {
+      owner: 'ab',
+      tag: 'abc',
+      event: { kind: 'created', at: 'now' }
+    });
+
+    expect(errors.map(({ code, schemaPath }) => ({ code, schemaPath }))).toEqual([
+      { code: 'minLength', schemaPath: '/definitions/id/minLength' },
+      { code: 'allOf', schemaPath: '/properties/tag/allOf' },
+      { code: 'type', schemaPath: '/properties/event/discriminator/mapping/created/at/type' }
+    ]);
+  });
+
+  test('It should keep the error text for backward compatibility', () => {
+    const { errors } = mikrovalid.test(
+      { properties: { age: { type: 'number', maxValue: 120 } } },
+      { age: 150 }
+    );
+
+    expect(errors).toEqual([
+      {
+        key: 'age',
+        value: 150,
+        success: false,
+        error: 'Value too large',
+        code: 'maxValue',
+        params: { max: 120 },
+        instancePath: '/age',
+        schemaPath: '/properties/age/maxValue'
+      }
+    ]);
+  });
+});
+
+describe('Limiting errors', () => {
+  const schema = {
+    properties: {
+      name: { type: 'string', minLength: 2 },
+      age: { type: 'number', minValue: 18 },
+      email: { type: 'string', format: 'email' },
+      required: ['name', 'age', 'email']
+    }
+  } as const;
+
+  test('It should stop at the first error when aborting early', () => {
+    const { success, errors } = mikrovalid.test(
+      schema,
+      { name: 'S', age: 12, email: 'no' },
+      { abortEarly: true }
+    );
+
+    expect(success).toBe(false);
+    expect(errors).toMatchObject([{ key: 'name', code: 'minLength' }]);
+  });
+
+  test('It should stop at the maximum number of errors', () => {
+    const { success, errors } = mikrovalid.test(
+      schema,
+      { name: 'S', age: 12, email: 'no' },
+      { maxErrors: 2 }
+    );
+
+    expect(success).toBe(false);
+    expect(errors.map(({ code }) => code)).toEqual(['minLength', 'minValue']);
+  });
+
+  test('It should count errors about keys, such as missing required keys', () => {
+    const { errors } = mikrovalid.test(schema, { name: 'S' }, { maxErrors: 1 });
+
+    expect(errors).toEqual([
+      expect.objectContaining({ key: 'age', code: 'required', params: { missing: ['age'] } })
+    ]);
+  });
+
+  test('It should not validate anything after the maximum number of errors', () => {
+    let validated = 0;
+    const count = () => ++validated > 0;
+
+    const { errors } = mikrovalid.test(
+      {
+        properties: {
+          lines: {
+            type: 'array',
+            items: {
+              type: 'object',
+              qty: { type: 'number', minValue: 1, validate: count }
+            }
+          },
+          note: { type: 'string', validate: count }
+        }
+      },
+      { lines: Array.from({ length: 1000 }, () => ({ qty: 0 })), note: 'Leave at the door' },
+      { maxErrors: 3 }
+    );
+
+    expect(errors.map(({ instancePath }) => instancePath)).toEqual([
+      '/lines/0/qty',
+      '/lines/1/qty',
+      '/lines/2/qty'
+    ]);
+    expect(validated).toBe(3);
+  });
+
+  test('It should keep the rest of the output as it is when stopping', () => {
+    const { errors, data } = mikrovalid.test(
+      {
+        properties: {
+          scores: { type: 'array', items: { type: 'number', minValue: 1 } }
+        }
+      },
+      { scores: ['0', '2', '3'] },
+      { coerce: true, abortEarly: true }
+    );
+
+    expect(errors).toHaveLength(1);
+    expect(data).toEqual({ scores: [0, '2', '3'] });
+  });
+
+  test('It should not count composition branches towards the maximum number of errors', () => {
+    const { success, errors } = mikrovalid.test(
+      {
+        properties: {
+          id: { anyOf: [{ type: 'number' }, { type: 'string', minLength: 3 }] },
+          name: { type: 'string' }
+        }
+      },
+      { id: 'ab', name: 1 },
+      { abortEarly: true }
+    );
+
+    expect(success).toBe(false);
+    expect(errors).toMatchObject([{ key: 'id', code: 'anyOf' }]);
+  });
+
+  test('It should stop at the maximum number of errors with a compiled validator', () => {
+    const validate = mikrovalid.compile(schema, { abortEarly: true });
+
+    expect(validate({ name: 'S', age: 12, email: 'no' }).errors).toHaveLength(1);
+    expect(validate({ name: 'Sam', age: 40, email: 'sam@example.com' }).success).toBe(true);
+  });
+
+  test('It should return no more than the maximum number of asynchronous errors', async () => {
+    const asyncValidator = new MikroValid(true).registerKeyword('available', {
+      validator: async () => false,
+      error: 'Not available'
+    });
+
+    const { success, errors } = await asyncValidator.testAsync(
+      {
+        properties: {
+          username: { type: 'string', available: true },
+          nickname: { type: 'string', available: true }
+        }
+      },
+      { username: 'sam', nickname: 'sammy' },
+      { maxErrors: 1 }
+    );
+
+    expect(success).toBe(false);
+    expect(errors).toMatchObject([{ key: 'username', code: 'available' }]);
+  });
+
+  test('It should throw an error for an invalid maximum number of errors', () => {
+    expect(() => mikrovalid.test(schema, {}, { maxErrors: 0 })).toThrowError(
+      'The maxErrors option must be a positive integer!'
+    );
+    expect(() => mikrovalid.compile(schema, { maxErrors: 1.5 })).toThrowError(
+      'The maxErrors option must be a positive integer!'
+    );
+  });
+});
+
+describe('Tuples', () => {
+  const schema = {
+    properties: {
+      point: {
+        type: 'array',
+        prefixItems: [
+          { type: 'number', minValue: -90, maxValue: 90 },
+          { type: 'number', minValue: -180, maxValue: 180 }
+        ],
+        additionalItems: false
+      },
+      row: {
+        type: 'array',
+        prefixItems: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }],
+        items: { type: 'string', maxLength: 10 }
+      }
+    }
+  } as const;
+
+  test('It should validate elements against the schema for their position', () => {
+    const { success, errors } = mikrovalid.test(schema, {
+      point: [51.5, -0.12],
+      row: ['Sam', 42, true, 'a note']
+    });
+
+    expect(success).toBe(true);
+    expect(errors).toEqual([]);
+  });
+
+  test('It should give an error for each position that is invalid', () => {
+    const { errors } = mikrovalid.test(schema, {
+      point: [91, -0.12],
+      row: ['Sam', '42', true, 'a very long note']
+    });
+
+    expect(
+      errors.map(({ key, code, instancePath, schemaPath }) => ({
+        key,
+        code,
+        instancePath,
+        schemaPath
+      }))
+    ).toEqual([
+      {
+        key: 'point[0]',
+        code: 'maxValue',
+        instancePath: '/point/0',
+        schemaPath: '/properties/point/prefixItems/0/maxValue'
+      },
+      {
+        key: 'row[1]',
+        code: 'type',
+        instancePath: '/row/1',
+        schemaPath: '/properties/row/prefixItems/1/type'
+      },
+      {
+        key: 'row[3]',
+        code: 'maxLength',
+        instancePath: '/row/3',
+        schemaPath: '/properties/row/items/maxLength'
+      }
+    ]);
+  });
+
+  test('It should require an element for every position', () => {
+    const { errors } = mikrovalid.test(schema, { point: [51.5] });
+
+    expect(errors).toEqual([
+      {
+        key: 'point',
+        value: [51.5],
+        success: false,
+        error: 'Missing items: expected 2 but got 1!',
+        code: 'prefixItems',
+        params: { min: 2, actual: 1 },
+        instancePath: '/point',
+        schemaPath: '/properties/point/prefixItems'
+      }
+    ]);
+  });
+
+  test('It should disallow additional elements', () => {
+    const { errors } = mikrovalid.test(schema, { point: [51.5, -0.12, 11] });
+
+    expect(errors).toMatchObject([
+      {
+        key: 'point',
+        error: 'Has additional (disallowed) items: expected at most 2 but got 3!',
+        code: 'additionalItems',
+        params: { max: 2 },
+        instancePath: '/point'
+      }
+    ]);
+  });
+
+  test('It should allow any additional elements without an items schema', () => {
+    const { success } = mikrovalid.test(
+      { properties: { pair: { type: 'array', prefixItems: [{ type: 'string' }] } } },
+      { pair: ['a', 1, { b: true }] }
+    );
+
+    expect(success).toBe(true);
+  });
+
+  test('It should disallow all elements without positional item schemas', () => {
+    const noItems = { properties: { empty: { type: 'array', additionalItems: false } } } as const;
+
+    expect(mikrovalid.test(noItems, { empty: [] }).success).toBe(true);
+    expect(mikrovalid.test(noItems, { empty: [1] }).success).toBe(false);
+  });
+
+  test('It should validate nested values in positions, with the index in the key', () => {
+    const { errors } = mikrovalid.test(
+      {
+        properties: {
+          entry: {
+            type: 'array',
+            prefixItems: [{ type: 'string' }, { type: 'object', qty: { type: 'number' } }]
+          }
+        }
+      },
+      { entry: ['sku', { qty: 'many' }] }
+    );
+
+    expect(errors).toMatchObject([{ key: 'entry[1].qty', instancePath: '/entry/1/qty' }]);
+  });
+
+  test('It should coerce elements and fill in defaults for missing positions', () => {
+    const { success, data } = mikrovalid.test(
+      {
+        properties: {
+          range: {
+            type: 'array',
+            prefixItems: [
+              { type: 'number' },
+              { type: 'number', default: 100 },
+              { type: 'string', default: 'cm' }
+            ]
+          }
+        }
+      },
+      { range: ['5'] },
+      { coerce: true, useDefaults: true }
+    );
+
+    expect(success).toBe(true);
+    expect(data).toEqual({ range: [5, 100, 'cm'] });
+  });
+});
+
+describe('Unique items', () => {
+  test('It should validate that the elements of an array are unique', () => {
+    const schema = { properties: { tags: { type: 'array', uniqueItems: true } } } as const;
+
+    expect(mikrovalid.test(schema, { tags: ['a', 'b', 1, '1'] }).success).toBe(true);
+    expect(mikrovalid.test(schema, { tags: ['a', 'b', 'a'] }).errors).toEqual([
+      {
+        key: 'tags',
+        value: ['a', 'b', 'a'],
+        success: false,
+        error: 'Items are not unique',
+        code: 'uniqueItems',
+        params: {},
+        instancePath: '/tags',
+        schemaPath: '/properties/tags/uniqueItems'
+      }
+    ]);
+  });
+
+  test('It should compare objects and arrays with deep equality', () => {
+    const schema = { properties: { lines: { type: 'array', uniqueItems: true } } } as const;
+
+    expect(
+      mikrovalid.test(schema, { lines: [{ sku: 'a', qty: 1 }, { sku: 'a', qty: 2 }, [1, 2]] })
+        .success
+    ).toBe(true);
+    expect(
+      mikrovalid.test(schema, { lines: [{ sku: 'a', qty: 1 }, [1, 2], { qty: 1, sku: 'a' }] })
+        .success
+    ).toBe(false);
+    expect(
+      mikrovalid.test(schema, {
+        lines: [
+          [1, 2],
+          [1, 2]
+        ]
+      }).success
+    ).toBe(false);
+  });
+
+  test('It should compare elements by a property', () => {
+    const schema = {
+      properties: {
+        users: {
+          type: 'array',
+          items: { type: 'object', id: { type: 'number' }, name: { type: 'string' } },
+          uniqueItems: 'id'
+        }
+      }
+    } as const;
+
+    expect(
+      mikrovalid.test(schema, {
+        users: [
+          { id: 1, name: 'Sam' },
+          { id: 2, name: 'Sam' }
+        ]
+      }).success
+    ).toBe(true);
+    expect(
+      mikrovalid.test(schema, {
+        users: [
+          { id: 1, name: 'Sam' },
+          { id: 1, name: 'Alex' }
+        ]
+      }).success
+    ).toBe(false);
+  });
+
+  test('It should compare elements by what a function selects', () => {
+    const schema = {
+      properties: {
+        emails: {
+          type: 'array',
+          uniqueItems: (email: string) => email.toLowerCase()
+        }
+      }
+    } as const;
+
+    expect(
+      mikrovalid.test(schema, { emails: ['sam@example.com', 'alex@example.com'] }).success
+    ).toBe(true);
+    expect(
+      mikrovalid.test(schema, { emails: ['sam@example.com', 'Sam@Example.com'] }).success
+    ).toBe(false);
+  });
+});
+
+describe('Contains', () => {
+  const schema = {
+    properties: {
+      addresses: {
+        type: 'array',
+        items: { type: 'object', city: { type: 'string' }, primary: { type: 'boolean' } },
+        contains: { primary: { type: 'boolean', const: true }, required: ['primary'] },
+        maxContains: 1
+      }
+    }
+  } as const;
+
+  test('It should validate that an array contains an element that matches a schema', () => {
+    const { success } = mikrovalid.test(schema, {
+      addresses: [{ city: 'London' }, { city: 'Stockholm', primary: true }]
+    });
+
+    expect(success).toBe(true);
+  });
+
+  test('It should give an error when no element matches the schema', () => {
+    const { errors } = mikrovalid.test(schema, {
+      addresses: [{ city: 'London' }, { city: 'Stockholm', primary: false }]
+    });
+
+    expect(errors).toMatchObject([
+      {
+        key: 'addresses',
+        error: 'Too few items match the schema in contains: expected at least 1 but got 0!',
+        code: 'contains',
+        params: { min: 1 },
+        instancePath: '/addresses',
+        schemaPath: '/properties/addresses/contains'
+      }
+    ]);
+  });
+
+  test('It should give an error when too many elements match the schema', () => {
+    const { errors } = mikrovalid.test(schema, {
+      addresses: [
+        { city: 'London', primary: true },
+        { city: 'Stockholm', primary: true }
+      ]
+    });
+
+    expect(errors).toMatchObject([
+      {
+        error: 'Too many items match the schema in contains: expected at most 1 but got 2!',
+        code: 'maxContains',
+        params: { max: 1 },
+        schemaPath: '/properties/addresses/maxContains'
+      }
+    ]);
+  });
+
+  test('It should require a minimum number of matching elements', () => {
+    const scores = {
+      properties: {
+        scores: { type: 'array', contains: { type: 'number', minValue: 90 }, minContains: 2 }
+      }
+    } as const;
+
+    expect(mikrovalid.test(scores, { scores: [95, 40, 91] }).success).toBe(true);
+    expect(mikrovalid.test(scores, { scores: [95, 40, 60] }).errors).toMatchObject([
+      { code: 'contains', params: { min: 2 } }
+    ]);
+  });
+
+  test('It should allow no matching elements with a minimum of zero', () => {
+    const tags = {
+      properties: {
+        tags: { type: 'array', contains: { type: 'string', const: 'draft' }, minContains: 0 }
+      }
+    } as const;
+
+    expect(mikrovalid.test(tags, { tags: [] }).success).toBe(true);
+  });
+
+  test('It should count elements once asynchronous validations have settled', async () => {
+    const asyncValidator = new MikroValid(true).registerKeyword('verified', {
+      validator: async (value: string) => value.endsWith('@example.com'),
+      error: 'Not verified'
+    });
+    const emails = {
+      properties: {
+        emails: { type: 'array', contains: { type: 'string', verified: true }, maxContains: 1 }
+      }
+    } as const;
+
+    const valid = await asyncValidator.testAsync(emails, { emails: ['sam@example.com', 'x@y.z'] });
+    const none = await asyncValidator.testAsync(emails, { emails: ['x@y.z'] });
+    const many = await asyncValidator.testAsync(emails, {
+      emails: ['sam@example.com', 'alex@example.com']
+    });
+
+    expect(valid.success).toBe(true);
+    expect(none.errors).toMatchObject([{ code: 'contains', instancePath: '/emails' }]);
+    expect(many.errors).toMatchObject([
+      { code: 'maxContains', schemaPath: '/properties/emails/maxContains' }
+    ]);
+  });
+});
+
+describe('Complex objects', () => {
+  test('It should validate a Flow Component', () => {
+    const expected = true;
+    const { success } = mikrovalid.test(
+      {
+        properties: {
+          component: {
+            type: 'string',
+            matchesPattern: /^(function|queue|storage|event)$/
+          },
+          memory: {
+            type: 'number',
+            minValue: 128,
+            maxValue: 3008
+          },
+          architecture: {
+            type: 'string',
+            matchesPattern: /^(arm|x86)$/
+          },
+          runtime: {
+            type: 'string',
+            matchesPattern: /^(nodejs20|python3\.7)$/
+          },
+          code: {
+            type: 'string'
+          },
+          required: ['component', 'memory', 'architecture', 'runtime', 'code']
+        }
+      },
+      {
+        component: 'function',
+        memory: 512,
+        architecture: 'arm',
+        runtime: 'nodejs20',
+        code: "export async function handler(event, context) { return { statusCode: 200, body: JSON.stringify('Hello world!') } }"
+      }
+    );
+
+    expect(success).toMatchObject(expected);
+  });
+
+  test('It should validate an App Component', () => {
+    const expected = true;
+    const { success } = mikrovalid.test(
+      {
+        properties: {
+          component: {
+            type: 'string',
+            matchesPattern: /^(list|button|text|image|dropdown)$/
+          },
+          name: {
+            type: 'string',
+            minLength: 3,
+            maxLength: 50
+          },
+          imageSource: {
+            type: 'string',
+            matchesPattern: /^(online|local)$/
+          },
+          url: {
+            type: 'string',
+            minLength: 5,
+            maxLength: 120
+          },
+          altText: {
+            type: 'string',
+            minLength: 1,
+            maxLength: 200
+          },
+          required: ['component', 'name', 'imageSource', 'url', 'altText']
+        }
+      },
+      {
+        component: 'image',
+        name: 'My image',
+        imageSource: 'online',
+        url: 'https://something.online.com/alkfjo3iu3.jpg',
+        altText: 'A picture of something'
+      }
+    );
+
+    expect(success).toMatchObject(expected);
+  });
+});
+
+describe('Demo', () => {
+  test('It should work with the demo example', () => {
+    const { success } = mikrovalid.test(
+      {
         properties: {
           personal: {
             type: 'object',
@@ -1636,6 +4709,298 @@ describe('Validation schema creation', () => {
   });
 });
 
+describe('Type inference', () => {
+  test('It should infer required and optional properties from a schema', () => {
+    const schema = {
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'number' },
+        isActive: { type: 'boolean' },
+        required: ['name', 'isActive']
+      }
+    } as const;
+
+    expectTypeOf<Infer<typeof schema>>().toEqualTypeOf<{
+      name: string;
+      isActive: boolean;
+      age?: number;
+    }>();
+  });
+
+  test('It should infer multiple types as a union', () => {
+    const schema = {
+      properties: {
+        field: { type: ['string', 'number'] },
+        required: ['field']
+      }
+    } as const;
+
+    expectTypeOf<Infer<typeof schema>>().toEqualTypeOf<{ field: string | number }>();
+  });
+
+  test('It should narrow the type of enums and constants', () => {
+    const schema = {
+      properties: {
+        status: { type: 'string', enum: ['open', 'closed'] },
+        priority: { type: ['number', 'string'], enum: [1, 'high'] },
+        kind: { type: 'string', const: 'order' },
+        required: ['status', 'kind']
+      }
+    } as const;
+
+    expectTypeOf<Infer<typeof schema>>().toEqualTypeOf<{
+      status: 'open' | 'closed';
+      kind: 'order';
+      priority?: 1 | 'high';
+    }>();
+  });
+
+  test('It should infer the types of composition', () => {
+    const schema = {
+      properties: {
+        payment: {
+          type: 'object',
+          amount: { type: 'number' },
+          oneOf: [
+            { type: 'object', method: { type: 'string', const: 'card' }, required: ['method'] },
+            { type: 'object', method: { type: 'string', const: 'invoice' }, required: ['method'] }
+          ],
+          required: ['amount']
+        },
+        id: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+        required: ['payment', 'id']
+      }
+    } as const;
+
+    type Data = Infer<typeof schema>;
+
+    expectTypeOf<Data['id']>().toEqualTypeOf<string | number>();
+    expectTypeOf<Data['payment']>().toMatchTypeOf<
+      { amount: number } & ({ method: 'card' } | { method: 'invoice' })
+    >();
+    expectTypeOf<{ amount: 1; method: 'card' }>().toMatchTypeOf<Data['payment']>();
+  });
+
+  test('It should infer the types of references, including recursive ones', () => {
+    const schema = {
+      definitions: {
+        address: { type: 'object', city: { type: 'string' }, required: ['city'] },
+        comment: {
+          type: 'object',
+          text: { type: 'string' },
+          replies: { type: 'array', items: { $ref: '#/definitions/comment' } },
+          required: ['text']
+        }
+      },
+      properties: {
+        shipping: { $ref: '#/definitions/address' },
+        comments: { type: 'array', items: { $ref: '#/definitions/comment' } },
+        required: ['shipping']
+      }
+    } as const;
+
+    type Data = Infer<typeof schema>;
+    type Comment = NonNullable<Data['comments']>[number];
+
+    expectTypeOf<Data['shipping']>().toEqualTypeOf<{ city: string }>();
+    expectTypeOf<Comment['text']>().toEqualTypeOf<string>();
+    expectTypeOf<NonNullable<Comment['replies']>[number]['text']>().toEqualTypeOf<string>();
+  });
+
+  test('It should infer the types of discriminated unions', () => {
+    const schema = {
+      properties: {
+        event: {
+          type: 'object',
+          id: { type: 'string' },
+          discriminator: {
+            propertyName: 'type',
+            mapping: {
+              created: { type: 'object', total: { type: 'number' }, required: ['total'] },
+              cancelled: { type: 'object', reason: { type: 'string' } }
+            }
+          },
+          required: ['id']
+        },
+        required: ['event']
+      }
+    } as const;
+
+    type Event = Infer<typeof schema>['event'];
+
+    expectTypeOf<Event['type']>().toEqualTypeOf<'created' | 'cancelled'>();
+    expectTypeOf<{ id: string; type: 'created'; total: number }>().toMatchTypeOf<Event>();
+    expectTypeOf<{ id: string; type: 'cancelled' }>().toMatchTypeOf<Event>();
+    expectTypeOf<{ id: string; type: 'created' }>().not.toMatchTypeOf<Event>();
+  });
+
+  test('It should infer arrays and nested objects', () => {
+    const schema = {
+      properties: {
+        tags: { type: 'array', items: { type: 'string' } },
+        anything: { type: 'array' },
+        orders: {
+          type: 'array',
+          items: {
+            type: 'object',
+            sku: { type: 'string' },
+            qty: { type: 'number' },
+            required: ['sku']
+          }
+        },
+        address: {
+          type: 'object',
+          street: { type: 'string' },
+          required: ['street']
+        },
+        metadata: { type: 'object' },
+        required: ['orders', 'address']
+      }
+    } as const;
+
+    expectTypeOf<Infer<typeof schema>>().toEqualTypeOf<{
+      orders: { sku: string; qty?: number }[];
+      address: { street: string };
+      tags?: string[];
+      anything?: unknown[];
+      metadata?: Record<string, unknown>;
+    }>();
+  });
+
+  test('It should infer tuples from positional item schemas', () => {
+    const schema = {
+      properties: {
+        point: {
+          type: 'array',
+          prefixItems: [{ type: 'number' }, { type: 'number' }],
+          additionalItems: false
+        },
+        row: {
+          type: 'array',
+          prefixItems: [{ type: 'string' }, { type: 'boolean' }],
+          items: { type: 'number' }
+        },
+        pair: { type: 'array', prefixItems: [{ type: 'string' }, { enum: ['a', 'b'] }] },
+        required: ['point']
+      }
+    } as const;
+
+    expectTypeOf<Infer<typeof schema>>().toEqualTypeOf<{
+      point: [number, number];
+      row?: [string, boolean, ...number[]];
+      pair?: [string, 'a' | 'b', ...unknown[]];
+    }>();
+  });
+
+  test('It should infer numbers from integers', () => {
+    const schema = {
+      properties: {
+        quantity: { type: 'integer', exclusiveMinValue: 0 },
+        price: { type: ['integer', 'string'] },
+        required: ['quantity']
+      }
+    } as const;
+
+    expectTypeOf<Infer<typeof schema>>().toEqualTypeOf<{
+      quantity: number;
+      price?: number | string;
+    }>();
+  });
+
+  test('It should accept a schema declared with "as const" when testing', () => {
+    const schema = {
+      properties: {
+        name: { type: 'string', minLength: 2 },
+        kind: { type: ['string', 'number'] },
+        required: ['name']
+      }
+    } as const;
+
+    const { success } = mikrovalid.test(schema, { name: 'Sam', kind: 1 });
+
+    expect(success).toBe(true);
+  });
+});
+
+describe('Type guards, assertions and parsing', () => {
+  const schema = {
+    properties: {
+      name: { type: 'string', minLength: 2 },
+      age: { type: 'number' },
+      required: ['name']
+    }
+  } as const;
+
+  test('It should narrow a valid input with is()', () => {
+    const input: Record<string, any> = { name: 'Sam', age: 42 };
+
+    expect(mikrovalid.is(schema, input)).toBe(true);
+
+    if (mikrovalid.is(schema, input)) {
+      expectTypeOf(input.name).toEqualTypeOf<string>();
+      expectTypeOf(input.age).toEqualTypeOf<number | undefined>();
+    }
+  });
+
+  test('It should infer the schema type in is() without a separate declaration', () => {
+    const input: Record<string, any> = { id: 'abc' };
+
+    if (mikrovalid.is({ properties: { id: { type: 'string' }, required: ['id'] } }, input))
+      expectTypeOf(input.id).toEqualTypeOf<string>();
+  });
+
+  test('It should return false for an invalid input with is()', () => {
+    expect(mikrovalid.is(schema, { name: 'S' })).toBe(false);
+  });
+
+  test('It should not throw when asserting a valid input', () => {
+    const validator: MikroValid = mikrovalid;
+    const input: Record<string, any> = { name: 'Sam' };
+
+    validator.assert(schema, input);
+
+    expectTypeOf(input.name).toEqualTypeOf<string>();
+  });
+
+  test('It should throw a ValidationException with all errors when asserting an invalid input', () => {
+    const expected = [
+      { key: 'name', value: 'S', success: false, error: 'Length too short' },
+      { key: 'age', value: '42', success: false, error: 'Invalid type' }
+    ];
+
+    const validator: MikroValid = mikrovalid;
+
+    try {
+      validator.assert(schema, { name: 'S', age: '42' });
+      expect.unreachable();
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(ValidationException);
+      expect(error.name).toBe('ValidationException');
+      expect(error.message).toBe('Validation failed: name: Length too short, age: Invalid type');
+      expect(error.errors).toMatchObject(expected);
+    }
+  });
+
+  test('It should return the data when parsing a valid input', () => {
+    const input = { name: 'Sam', age: 42 };
+
+    const result = mikrovalid.parse(schema, input);
+
+    expect(result).toMatchObject({ success: true, data: input });
+    if (result.success) expectTypeOf(result.data).toEqualTypeOf<{ name: string; age?: number }>();
+  });
+
+  test('It should return the errors when parsing an invalid input', () => {
+    const result = mikrovalid.parse(schema, { age: 42 });
+
+    expect(result).toMatchObject({
+      success: false,
+      errors: [{ key: 'name', success: false, error: "Missing the required key: 'name'!" }]
+    });
+    expect(result).not.toHaveProperty('data');
+  });
+});
+
 /**
  * NEGATIVE TESTS
  */
@@ -1663,7 +5028,7 @@ describe('Error handling', () => {
   test('It should fail when missing a required key in the base', () => {
     const expected = {
       error: "Missing the required key: 'thing'!",
-      key: '',
+      key: 'thing',
       success: false,
       value: {
         something: 123
@@ -1688,7 +5053,7 @@ describe('Error handling', () => {
   test('It should fail when missing a required key in the root of a nested object', () => {
     const expected = {
       error: "Missing the required key: 'things'!",
-      key: '',
+      key: 'things',
       success: false,
       value: {
         dings: {}
@@ -1719,7 +5084,7 @@ describe('Error handling', () => {
   test('It should fail when missing a required key in the child of a nested object', () => {
     const expected = {
       error: "Missing the required key: 'deeperThings'!",
-      key: '',
+      key: 'things.nestedThings.deeperThings',
       success: false,
       value: {}
     };